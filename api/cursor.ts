@@ -6,7 +6,7 @@ function corsHeaders(origin: string | null): Headers {
   const h = new Headers();
   h.set('Access-Control-Allow-Origin', origin ?? '*');
   h.set('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
-  h.set('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  h.set('Access-Control-Allow-Headers', 'Authorization, Content-Type, If-None-Match, If-Modified-Since');
   h.set('Access-Control-Max-Age', '86400');
   h.set('Vary', 'Origin');
   return h;
@@ -14,7 +14,16 @@ function corsHeaders(origin: string | null): Headers {
 
 function filterUpstreamHeaders(incoming: Headers): Headers {
   const out = new Headers();
-  const allow = new Set(['authorization', 'content-type', 'accept', 'user-agent', 'x-request-id']);
+  const allow = new Set([
+    'authorization',
+    'content-type',
+    'accept',
+    'user-agent',
+    'x-request-id',
+    // Conditional requests (ETag revalidation from the client-side HTTP cache)
+    'if-none-match',
+    'if-modified-since',
+  ]);
 
   for (const [k, v] of incoming.entries()) {
     if (allow.has(k.toLowerCase())) out.set(k, v);
@@ -1,11 +1,16 @@
 import * as React from 'react';
 import CloudAgentsKanban from '@/components/kanban/default';
 import { ApiKeyModal, ApiKeySettingsButton } from '@/components/api-key-modal';
+import { GithubTokenModal, GithubTokenSettingsButton } from '@/components/github-token-modal';
+import { Toaster } from '@/components/toaster';
 import { getApiKey } from '@/lib/cursor-api';
+import { getGithubToken } from '@/lib/github-api';
 
 function App() {
   const [apiKeySet, setApiKeySet] = React.useState(false);
   const [showApiKeyModal, setShowApiKeyModal] = React.useState(false);
+  const [githubTokenSet, setGithubTokenSet] = React.useState(() => !!getGithubToken());
+  const [showGithubTokenModal, setShowGithubTokenModal] = React.useState(false);
 
   // Check for API key on mount
   React.useEffect(() => {
@@ -16,6 +21,10 @@ function App() {
     }
   }, []);
 
+  // Stable so the board's error handling doesn't re-create its loaders every render
+  const openApiKeyModal = React.useCallback(() => setShowApiKeyModal(true), []);
+  const openGithubTokenModal = React.useCallback(() => setShowGithubTokenModal(true), []);
+
   const handleApiKeySuccess = () => {
     setApiKeySet(true);
   };
@@ -31,7 +40,10 @@ function App() {
               Manage your Cursor Cloud Agents
             </p>
           </div>
-          <ApiKeySettingsButton onClick={() => setShowApiKeyModal(true)} />
+          <div className="flex items-center gap-1">
+            <GithubTokenSettingsButton onClick={() => setShowGithubTokenModal(true)} />
+            <ApiKeySettingsButton onClick={() => setShowApiKeyModal(true)} />
+          </div>
         </div>
       </div>
 
@@ -39,7 +51,9 @@ function App() {
       <div className="flex-1 min-h-0 px-6 pb-6">
         <CloudAgentsKanban
           apiKeySet={apiKeySet}
-          onOpenSettings={() => setShowApiKeyModal(true)}
+          githubTokenSet={githubTokenSet}
+          onOpenSettings={openApiKeyModal}
+          onOpenGithubSettings={openGithubTokenModal}
         />
       </div>
 
@@ -49,6 +63,15 @@ function App() {
         onOpenChange={setShowApiKeyModal}
         onSuccess={handleApiKeySuccess}
       />
+
+      {/* GitHub Token Modal */}
+      <GithubTokenModal
+        open={showGithubTokenModal}
+        onOpenChange={setShowGithubTokenModal}
+        onChange={() => setGithubTokenSet(!!getGithubToken())}
+      />
+
+      <Toaster />
     </div>
   );
 }
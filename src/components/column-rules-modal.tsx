@@ -0,0 +1,362 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  type ColumnConfig,
+  type ColumnDefinition,
+  type RuleCondition,
+  type RuleField,
+  DEFAULT_COLUMN_CONFIG,
+  RULE_FIELDS,
+  exportColumnConfig,
+  importColumnConfig,
+} from '@/lib/column-rules';
+import { downloadJson } from '@/lib/utils';
+import { ArrowDown, ArrowUp, Columns3, Download, Plus, RotateCcw, Trash2, Upload, X, XCircle } from 'lucide-react';
+
+interface ColumnRulesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: ColumnConfig;
+  // Throws when the config is invalid (the message is shown in the dialog)
+  onConfigChange: (config: ColumnConfig) => void;
+}
+
+function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+interface ConditionEditorProps {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionEditor({ condition, onChange, onRemove }: ConditionEditorProps) {
+  const toggleValue = (value: string) => {
+    const values = condition.values.includes(value)
+      ? condition.values.filter((v) => v !== value)
+      : [...condition.values, value];
+    onChange({ ...condition, values });
+  };
+
+  return (
+    <div className="flex items-start gap-2">
+      <Select
+        value={condition.field}
+        onValueChange={(field) => onChange({ field: field as RuleField, values: [] })}
+      >
+        <SelectTrigger size="sm" className="w-40 shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(RULE_FIELDS).map(([field, meta]) => (
+            <SelectItem key={field} value={field}>
+              {meta.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex flex-1 flex-wrap gap-1 pt-0.5">
+        {RULE_FIELDS[condition.field].options.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => toggleValue(option)}
+            className={`rounded-sm border px-1.5 py-0.5 text-xs ${
+              condition.values.includes(option)
+                ? 'border-primary bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:bg-accent'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <Button type="button" variant="dim" size="sm" mode="icon" className="h-7 w-7 shrink-0" onClick={onRemove}>
+        <X className="size-3.5" />
+      </Button>
+    </div>
+  );
+}
+
+// Column definitions editor: which columns exist and the ordered rules that place agents in them
+export function ColumnRulesModal({ open, onOpenChange, config, onConfigChange }: ColumnRulesModalProps) {
+  const [draft, setDraft] = React.useState<ColumnConfig>(config);
+  const [error, setError] = React.useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  // Start from the saved config every time the dialog opens
+  React.useEffect(() => {
+    if (open) {
+      setDraft(config);
+      setError(null);
+    }
+  }, [open, config]);
+
+  const updateColumn = (index: number, changes: Partial<ColumnDefinition>) => {
+    setDraft((prev) => ({
+      ...prev,
+      columns: prev.columns.map((column, i) => (i === index ? { ...column, ...changes } : column)),
+    }));
+  };
+
+  const updateGroup = (columnIndex: number, groupIndex: number, group: RuleCondition[] | null) => {
+    const column = draft.columns[columnIndex];
+    const match =
+      group === null
+        ? column.match.filter((_, i) => i !== groupIndex)
+        : column.match.map((g, i) => (i === groupIndex ? group : g));
+    updateColumn(columnIndex, { match });
+  };
+
+  const addColumn = () => {
+    const column: ColumnDefinition = {
+      id: `column_${Date.now()}`,
+      title: 'New column',
+      description: '',
+      match: [[{ field: 'status', values: ['FINISHED'] }]],
+    };
+    // New columns go in front of the catch-all last column so they get a chance to match
+    setDraft((prev) => ({ ...prev, columns: [...prev.columns.slice(0, -1), column, ...prev.columns.slice(-1)] }));
+  };
+
+  const moveColumn = (from: number, to: number) => {
+    setDraft((prev) => ({ ...prev, columns: moveItem(prev.columns, from, to) }));
+  };
+
+  const removeColumn = (index: number) => {
+    setDraft((prev) => {
+      const columns = prev.columns.filter((_, i) => i !== index);
+      const fallback = columns.some((c) => c.id === prev.fallback) ? prev.fallback : (columns[0]?.id ?? '');
+      return { columns, fallback };
+    });
+  };
+
+  const handleSave = () => {
+    try {
+      onConfigChange(draft);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid column configuration');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setDraft(importColumnConfig(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import columns');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="size-5" />
+            Board Columns
+          </DialogTitle>
+          <DialogDescription>
+            Each agent goes to the first column (top to bottom) with a matching rule. A rule matches when all of
+            its conditions hold; a condition holds when the agent's value is one of the selected ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-3 pr-1">
+          {draft.columns.map((column, columnIndex) => (
+            <div key={column.id} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="w-5 text-xs text-muted-foreground tabular-nums">{columnIndex + 1}.</span>
+                <Input
+                  value={column.title}
+                  onChange={(e) => updateColumn(columnIndex, { title: e.target.value })}
+                  className="h-8 w-44"
+                  aria-label="Column title"
+                />
+                <Input
+                  value={column.description}
+                  onChange={(e) => updateColumn(columnIndex, { description: e.target.value })}
+                  placeholder="Description"
+                  className="h-8 flex-1"
+                  aria-label="Column description"
+                />
+                <Button
+                  type="button"
+                  variant="dim"
+                  size="sm"
+                  mode="icon"
+                  className="h-7 w-7"
+                  disabled={columnIndex === 0}
+                  onClick={() => moveColumn(columnIndex, columnIndex - 1)}
+                  title="Match earlier"
+                >
+                  <ArrowUp className="size-3.5" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="dim"
+                  size="sm"
+                  mode="icon"
+                  className="h-7 w-7"
+                  disabled={columnIndex === draft.columns.length - 1}
+                  onClick={() => moveColumn(columnIndex, columnIndex + 1)}
+                  title="Match later"
+                >
+                  <ArrowDown className="size-3.5" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="dim"
+                  size="sm"
+                  mode="icon"
+                  className="h-7 w-7"
+                  disabled={draft.columns.length === 1}
+                  onClick={() => removeColumn(columnIndex)}
+                  title="Remove column"
+                >
+                  <Trash2 className="size-3.5" />
+                </Button>
+              </div>
+
+              <div className="space-y-2 pl-7">
+                {column.match.map((group, groupIndex) => (
+                  <div key={groupIndex} className="space-y-1.5">
+                    {groupIndex > 0 && <div className="text-[11px] font-medium uppercase text-muted-foreground">or</div>}
+                    <div className="rounded-sm bg-muted/40 p-2 space-y-1.5">
+                      {group.map((condition, conditionIndex) => (
+                        <ConditionEditor
+                          key={conditionIndex}
+                          condition={condition}
+                          onChange={(next) =>
+                            updateGroup(
+                              columnIndex,
+                              groupIndex,
+                              group.map((c, i) => (i === conditionIndex ? next : c))
+                            )
+                          }
+                          onRemove={() =>
+                            updateGroup(
+                              columnIndex,
+                              groupIndex,
+                              group.length > 1 ? group.filter((_, i) => i !== conditionIndex) : null
+                            )
+                          }
+                        />
+                      ))}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateGroup(columnIndex, groupIndex, [...group, { field: 'status', values: [] }])}
+                      >
+                        <Plus className="size-3.5 mr-1" />
+                        And
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateColumn(columnIndex, { match: [...column.match, [{ field: 'status', values: [] }]] })}
+                >
+                  <Plus className="size-3.5 mr-1" />
+                  {column.match.length === 0 ? 'Add rule' : 'Or'}
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Button type="button" variant="outline" size="sm" onClick={addColumn}>
+            <Plus className="size-4 mr-1" />
+            Add Column
+          </Button>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor="fallback-column" className="shrink-0">
+              No match goes to
+            </Label>
+            <Select value={draft.fallback} onValueChange={(fallback) => setDraft((prev) => ({ ...prev, fallback }))}>
+              <SelectTrigger id="fallback-column" size="sm" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {draft.columns.map((column) => (
+                  <SelectItem key={column.id} value={column.id}>
+                    {column.title || column.id}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-destructive text-sm">
+            <XCircle className="size-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex items-center gap-1">
+            <Button type="button" variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="size-4 mr-1" />
+              Import
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => downloadJson('board-columns.json', exportColumnConfig(draft))}
+            >
+              <Download className="size-4 mr-1" />
+              Export
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setDraft(DEFAULT_COLUMN_CONFIG)}>
+              <RotateCcw className="size-4 mr-1" />
+              Default
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave}>
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
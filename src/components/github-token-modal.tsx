@@ -0,0 +1,174 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  getGithubToken,
+  setGithubToken,
+  clearGithubToken,
+  testGithubConnection,
+} from '@/lib/github-api';
+import { Github, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+
+interface GithubTokenModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange?: () => void;
+}
+
+export function GithubTokenModal({ open, onOpenChange, onChange }: GithubTokenModalProps) {
+  const [token, setTokenValue] = React.useState('');
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [login, setLogin] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (open) {
+      setTokenValue(getGithubToken() ?? '');
+      setLogin(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleTestConnection = async () => {
+    if (!token.trim()) {
+      setError('Please enter a token');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setLogin(null);
+
+    // Only Save stores the token
+    try {
+      const user = await testGithubConnection(token.trim());
+      setLogin(user.login);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Connection failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!token.trim() || !login) {
+      setError('Please test the connection first');
+      return;
+    }
+
+    setGithubToken(token.trim());
+    onOpenChange(false);
+    onChange?.();
+  };
+
+  const handleClear = () => {
+    clearGithubToken();
+    setTokenValue('');
+    setLogin(null);
+    setError(null);
+    onChange?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Github className="size-5" />
+            GitHub Token
+          </DialogTitle>
+          <DialogDescription>
+            Optional. A token raises the GitHub rate limit from 60 to 5,000 requests per hour and lets the
+            board read PR status for private repositories. Create a{' '}
+            <a
+              href="https://github.com/settings/tokens"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary underline hover:no-underline"
+            >
+              personal access token
+            </a>{' '}
+            with read access to pull requests and commit statuses.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="githubToken">Token</Label>
+            <Input
+              id="githubToken"
+              type="password"
+              value={token}
+              onChange={(e) => {
+                setTokenValue(e.target.value);
+                setLogin(null);
+                setError(null);
+              }}
+              placeholder="ghp_... or github_pat_..."
+              className="font-mono"
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-destructive text-sm">
+              <XCircle className="size-4" />
+              {error}
+            </div>
+          )}
+
+          {login && (
+            <div className="flex items-center gap-2 text-green-600 dark:text-green-400 text-sm">
+              <CheckCircle2 className="size-4" />
+              Connected as {login}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {getGithubToken() && (
+            <Button variant="outline" onClick={handleClear} className="mr-auto">
+              Clear Token
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleTestConnection} disabled={isLoading || !token.trim()}>
+            {isLoading ? (
+              <>
+                <Loader2 className="size-4 mr-2 animate-spin" />
+                Testing...
+              </>
+            ) : (
+              'Test Connection'
+            )}
+          </Button>
+          <Button onClick={handleSave} disabled={!login}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Settings button component to open the modal
+interface GithubTokenSettingsButtonProps {
+  onClick: () => void;
+}
+
+export function GithubTokenSettingsButton({ onClick }: GithubTokenSettingsButtonProps) {
+  return (
+    <Button variant="ghost" size="sm" mode="icon" onClick={onClick} title="GitHub Settings">
+      <Github className="size-4" />
+    </Button>
+  );
+}
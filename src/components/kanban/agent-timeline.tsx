@@ -0,0 +1,52 @@
+'use client';
+
+import * as React from 'react';
+import { ChevronRight } from 'lucide-react';
+import { getAgentHistory, hydrateAgentHistory, subscribeAgentHistory } from '@/lib/agent-history';
+
+interface AgentTimelineProps {
+  agentId: string;
+  createdAt: string;
+  columnTitles: Record<string, string>;
+}
+
+function formatTime(iso: string, includeDate: boolean): string {
+  return new Date(iso).toLocaleString('en-US', {
+    ...(includeDate ? { month: 'short', day: 'numeric' } : {}),
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// "Created 10:02 → In Progress 10:03 → Needs Input 10:41 → ..."
+export function AgentTimeline({ agentId, createdAt, columnTitles }: AgentTimelineProps) {
+  const entries = React.useSyncExternalStore(subscribeAgentHistory, () => getAgentHistory(agentId));
+
+  React.useEffect(() => {
+    hydrateAgentHistory();
+  }, []);
+
+  const steps = [
+    { label: 'Created', at: createdAt },
+    ...entries.map((entry) => ({ label: columnTitles[entry.column] ?? entry.column, at: entry.at, status: entry.status })),
+  ];
+
+  // Show dates only when the timeline spans more than one day
+  const spansDays = new Date(steps[0].at).toDateString() !== new Date(steps[steps.length - 1].at).toDateString();
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap text-xs text-muted-foreground">
+      {steps.map((step, index) => (
+        <React.Fragment key={`${step.at}-${index}`}>
+          {index > 0 && <ChevronRight className="size-3 text-muted-foreground/50" />}
+          <span
+            className={index === steps.length - 1 ? 'text-foreground font-medium' : undefined}
+            title={'status' in step ? `${step.status} • ${new Date(step.at).toLocaleString()}` : new Date(step.at).toLocaleString()}
+          >
+            {step.label} <span className="tabular-nums">{formatTime(step.at, spansDays)}</span>
+          </span>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
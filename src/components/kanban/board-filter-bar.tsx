@@ -0,0 +1,224 @@
+'use client';
+
+import * as React from 'react';
+import { ChevronDown, Search, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  type BoardFilters,
+  type CardSort,
+  CARD_SORT_LABELS,
+  EMPTY_BOARD_FILTERS,
+  FILTERABLE_STATUSES,
+  hasActiveFilters,
+} from '@/lib/board-filters';
+import type { AgentStatus } from '@/lib/cursor-api';
+import { type SwimlaneMode, SWIMLANE_MODE_LABELS } from '@/lib/swimlanes';
+
+interface FilterOption {
+  value: string;
+  label: string;
+}
+
+interface MultiSelectFilterProps {
+  label: string;
+  options: FilterOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+function MultiSelectFilter({ label, options, selected, onChange }: MultiSelectFilterProps) {
+  const [query, setQuery] = React.useState('');
+
+  const needle = query.trim().toLowerCase();
+  // Keep selections that no longer match any agent visible so they can be cleared
+  const all = [
+    ...selected.filter((value) => !options.some((o) => o.value === value)).map((value) => ({ value, label: value })),
+    ...options,
+  ];
+  const visible = needle ? all.filter((option) => option.label.toLowerCase().includes(needle)) : all;
+
+  const toggle = (value: string, checked: boolean) =>
+    onChange(checked ? [...selected, value] : selected.filter((v) => v !== value));
+
+  return (
+    <Popover onOpenChange={(open) => !open && setQuery('')}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          {label}
+          {selected.length > 0 && (
+            <Badge variant="primary" className="ml-1">
+              {selected.length}
+            </Badge>
+          )}
+          <ChevronDown className="size-3.5 ml-1 opacity-60" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 p-2 space-y-2">
+        {options.length > 8 && (
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder={`Filter ${label.toLowerCase()}...`} />
+        )}
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {visible.map((option) => (
+            <Label key={option.value} className="px-1 py-1 font-normal">
+              <Checkbox
+                checked={selected.includes(option.value)}
+                onCheckedChange={(checked) => toggle(option.value, checked === true)}
+              />
+              <span className="truncate">{option.label}</span>
+            </Label>
+          ))}
+          {visible.length === 0 && <p className="py-2 text-center text-xs text-muted-foreground">Nothing to pick</p>}
+        </div>
+        {selected.length > 0 && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange([])}>
+            Clear
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface BoardFilterBarProps {
+  filters: BoardFilters;
+  onChange: (filters: BoardFilters) => void;
+  sort: CardSort;
+  onSortChange: (sort: CardSort) => void;
+  swimlaneMode: SwimlaneMode;
+  swimlaneModes: SwimlaneMode[];
+  onSwimlaneModeChange: (mode: SwimlaneMode) => void;
+  repositories: FilterOption[];
+  refs: FilterOption[];
+  // Cards left after filtering, out of all cards
+  matchCount: number;
+  totalCount: number;
+}
+
+// Search and filters above the board
+export function BoardFilterBar({
+  filters,
+  onChange,
+  sort,
+  onSortChange,
+  swimlaneMode,
+  swimlaneModes,
+  onSwimlaneModeChange,
+  repositories,
+  refs,
+  matchCount,
+  totalCount,
+}: BoardFilterBarProps) {
+  const update = (changes: Partial<BoardFilters>) => onChange({ ...filters, ...changes });
+
+  const toggleStatus = (status: AgentStatus) =>
+    update({
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter((s) => s !== status)
+        : [...filters.statuses, status],
+    });
+
+  const active = hasActiveFilters(filters);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3 flex-shrink-0">
+      <div className="relative w-64">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 size-4 text-muted-foreground pointer-events-none" />
+        <Input
+          value={filters.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search name, summary, prompt..."
+          className="h-8 pl-8"
+        />
+      </div>
+
+      <MultiSelectFilter
+        label="Repository"
+        options={repositories}
+        selected={filters.repositories}
+        onChange={(selected) => update({ repositories: selected })}
+      />
+      <MultiSelectFilter label="Ref" options={refs} selected={filters.refs} onChange={(selected) => update({ refs: selected })} />
+
+      <div className="flex items-center gap-1">
+        {FILTERABLE_STATUSES.map((status) => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => toggleStatus(status)}
+            className={`rounded-sm border px-1.5 py-0.5 text-[11px] ${
+              filters.statuses.includes(status)
+                ? 'border-primary bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:bg-accent'
+            }`}
+          >
+            {status}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Input
+          type="date"
+          value={filters.createdFrom}
+          max={filters.createdTo || undefined}
+          onChange={(e) => update({ createdFrom: e.target.value })}
+          className="h-8 w-36"
+          aria-label="Created from"
+        />
+        <span>–</span>
+        <Input
+          type="date"
+          value={filters.createdTo}
+          min={filters.createdFrom || undefined}
+          onChange={(e) => update({ createdTo: e.target.value })}
+          className="h-8 w-36"
+          aria-label="Created to"
+        />
+      </div>
+
+      <Select value={sort} onValueChange={(value) => onSortChange(value as CardSort)}>
+        <SelectTrigger size="sm" className="w-36" aria-label="Sort cards">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(CARD_SORT_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={swimlaneMode} onValueChange={(value) => onSwimlaneModeChange(value as SwimlaneMode)}>
+        <SelectTrigger size="sm" className="w-36" aria-label="Swimlanes">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {swimlaneModes.map((mode) => (
+            <SelectItem key={mode} value={mode}>
+              {SWIMLANE_MODE_LABELS[mode]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {active && (
+        <>
+          <span className="text-xs text-muted-foreground tabular-nums">
+            {matchCount} of {totalCount}
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_BOARD_FILTERS)}>
+            <X className="size-3.5 mr-1" />
+            Clear filters
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import * as React from 'react';
+import { ArrowLeft, Bookmark, Check, ChevronDown, Download, Link, Save, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { toast } from '@/lib/toast';
+import { downloadJson } from '@/lib/utils';
+import { type BoardView, exportBoardViews, importBoardViews } from '@/lib/board-views';
+
+interface BoardViewsMenuProps {
+  views: BoardView[];
+  // The saved view the board currently matches, if any
+  activeViewId: string | null;
+  onApply: (view: BoardView) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  // Copies a link to the view (or to the current board when null)
+  onShare: (view: BoardView | null) => void;
+  onViewsChange: () => void;
+}
+
+// Board header dropdown for saved views
+export function BoardViewsMenu({
+  views,
+  activeViewId,
+  onApply,
+  onSave,
+  onDelete,
+  onShare,
+  onViewsChange,
+}: BoardViewsMenuProps) {
+  const [open, setOpen] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [name, setName] = React.useState('');
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const activeView = views.find((view) => view.id === activeViewId);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setIsSaving(false);
+      setName(activeView?.name ?? '');
+    }
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setIsSaving(false);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = importBoardViews(await file.text());
+      onViewsChange();
+      toast.success(`Imported ${count} view${count === 1 ? '' : 's'}`);
+    } catch (err) {
+      toast.error('Could not import views', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Bookmark className="size-4 mr-1" />
+          <span className="max-w-40 truncate">{activeView?.name ?? 'Views'}</span>
+          <ChevronDown className="size-3.5 ml-1 opacity-60" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        {isSaving ? (
+          <form
+            className="space-y-3 p-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            <div className="flex items-center gap-1">
+              <Button type="button" variant="ghost" size="sm" mode="icon" onClick={() => setIsSaving(false)}>
+                <ArrowLeft className="size-4" />
+              </Button>
+              <span className="text-sm font-medium">Save current board</span>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="board-view-name">View name</Label>
+              <Input
+                id="board-view-name"
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Anything failing"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Saves the filters, sort, and which columns are shown, collapsed and in what order.
+              {views.some((view) => view.name === name.trim()) && ' Replaces the view with this name.'}
+            </p>
+            <Button type="submit" size="sm" className="w-full" disabled={!name.trim()}>
+              Save view
+            </Button>
+          </form>
+        ) : (
+          <>
+            <div className="max-h-64 overflow-y-auto p-1">
+              {views.length === 0 ? (
+                <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+                  No saved views yet. Set up filters and columns, then save them here.
+                </p>
+              ) : (
+                views.map((view) => (
+                  <div key={view.id} className="group flex items-center gap-1 rounded-sm hover:bg-accent">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onApply(view);
+                        setOpen(false);
+                      }}
+                      className="flex flex-1 min-w-0 items-center gap-2 px-2 py-1.5 text-left text-sm"
+                    >
+                      <Check className={`size-3.5 shrink-0 ${view.id === activeViewId ? '' : 'invisible'}`} />
+                      <span className="truncate">{view.name}</span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onShare(view)}
+                      title="Copy link"
+                      className="p-1.5 text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100 focus:opacity-100"
+                    >
+                      <Link className="size-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(view.id)}
+                      title="Delete view"
+                      className="p-1.5 text-muted-foreground opacity-0 hover:text-destructive group-hover:opacity-100 focus:opacity-100"
+                    >
+                      <Trash2 className="size-3.5" />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+            <div className="flex items-center gap-1 border-t p-1">
+              <Button type="button" variant="ghost" size="sm" onClick={() => setIsSaving(true)}>
+                <Save className="size-3.5 mr-1" />
+                Save
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => onShare(null)} title="Copy a link to the current board">
+                <Link className="size-3.5 mr-1" />
+                Link
+              </Button>
+              <div className="ml-auto flex items-center">
+                <Button type="button" variant="ghost" size="sm" mode="icon" onClick={() => fileInputRef.current?.click()} title="Import views">
+                  <Upload className="size-3.5" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  mode="icon"
+                  disabled={views.length === 0}
+                  onClick={() => downloadJson('board-views.json', exportBoardViews())}
+                  title="Export views"
+                >
+                  <Download className="size-3.5" />
+                </Button>
+              </div>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { ChevronsRightLeft, Eye, EyeOff } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface ColumnVisibilityMenuProps {
+  // In board order
+  columns: Array<{ key: string; title: string }>;
+  hidden: string[];
+  collapsed: string[];
+  onToggleHidden: (key: string) => void;
+  onToggleCollapsed: (key: string) => void;
+  onShowAll: () => void;
+}
+
+// Board header menu for hiding columns or collapsing them to strips
+export function ColumnVisibilityMenu({
+  columns,
+  hidden,
+  collapsed,
+  onToggleHidden,
+  onToggleCollapsed,
+  onShowAll,
+}: ColumnVisibilityMenuProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" title="Show or hide columns">
+          {hidden.length > 0 ? <EyeOff className="size-4" /> : <Eye className="size-4" />}
+          {hidden.length > 0 && (
+            <Badge variant="secondary" className="ml-1">
+              {hidden.length} hidden
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-2">
+        <div className="max-h-80 overflow-y-auto space-y-0.5">
+          {columns.map((column) => {
+            const isHidden = hidden.includes(column.key);
+            const isCollapsed = collapsed.includes(column.key);
+            return (
+              <div key={column.key} className="flex items-center gap-1 rounded-sm px-1 hover:bg-accent">
+                <Label className="flex-1 min-w-0 py-1.5 font-normal">
+                  <Checkbox checked={!isHidden} onCheckedChange={() => onToggleHidden(column.key)} />
+                  <span className="truncate">{column.title}</span>
+                </Label>
+                <Button
+                  variant={isCollapsed ? 'secondary' : 'dim'}
+                  size="sm"
+                  mode="icon"
+                  className="h-6 w-6"
+                  disabled={isHidden}
+                  onClick={() => onToggleCollapsed(column.key)}
+                  title={isCollapsed ? 'Expand column' : 'Collapse column'}
+                >
+                  <ChevronsRightLeft className="size-3.5" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+        <div className="mt-2 border-t pt-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            disabled={hidden.length === 0 && collapsed.length === 0}
+            onClick={onShowAll}
+          >
+            Show all columns
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   Select,
@@ -22,6 +23,20 @@ import {
   SheetHeader,
   SheetTitle,
 } from '@/components/ui/sheet';
+import { NotificationSettingsModal } from '@/components/notification-settings-modal';
+import { ColumnRulesModal } from '@/components/column-rules-modal';
+import { AgentTimeline } from '@/components/kanban/agent-timeline';
+import { MarkdownMessage } from '@/components/kanban/markdown-message';
+import { FollowupComposer } from '@/components/kanban/followup-composer';
+import { TargetOptionsFields } from '@/components/kanban/target-options-fields';
+import { RefCombobox } from '@/components/kanban/ref-combobox';
+import { DraftEditor } from '@/components/kanban/draft-editor';
+import { PromptTemplatePicker } from '@/components/kanban/prompt-template-picker';
+import { AUTO_MODEL, FanoutFields, MAX_FANOUT_AGENTS } from '@/components/kanban/fanout-fields';
+import { ColumnVisibilityMenu } from '@/components/kanban/column-visibility-menu';
+import { BoardFilterBar } from '@/components/kanban/board-filter-bar';
+import { BoardViewsMenu } from '@/components/kanban/board-views-menu';
+import { type PendingDragAction, DragActionPopover } from '@/components/kanban/drag-action-popover';
 import {
   Kanban,
   KanbanBoard,
@@ -31,6 +46,7 @@ import {
   KanbanItem,
   KanbanItemHandle,
   KanbanOverlay,
+  type KanbanMoveEvent,
 } from '@/components/ui/kanban';
 import {
   GripVertical,
@@ -51,16 +67,32 @@ import {
   ShieldAlert,
   ShieldCheck,
   GitPullRequestDraft,
+  MessageSquareWarning,
+  Eye,
+  X,
+  Timer,
+  Bell,
+  BellRing,
+  ArrowRight,
+  Layers,
+  Columns3,
+  ChevronsLeftRight,
+  ChevronsRightLeft,
+  ChevronDown,
+  ChevronRight,
 } from 'lucide-react';
 import {
   type Agent,
   type AgentStatus,
+  type AgentTargetOptions,
   type Conversation,
   type ConversationMessage,
   type Repository,
   type DraftAgent,
-  type PrStatus,
+  type DraftFields,
   getAllAgents,
+  getCachedAgents,
+  getAgent,
   getConversation,
   createAgent,
   addFollowup,
@@ -71,45 +103,123 @@ import {
   getDrafts,
   saveDraft,
   deleteDraft,
+  restoreDraft,
+  updateDraft,
+  restoreDraftRevision,
   getLastRepository,
   setLastRepository,
-  fetchPrStatusesForAgents,
+  getRepositoryTargetDefaults,
+  setRepositoryTargetDefaults,
 } from '@/lib/cursor-api';
+import { AuthError, NotFoundError, RateLimitError, getErrorMessage } from '@/lib/api-errors';
+import { toast } from '@/lib/toast';
+import { type ImageAttachment, toFollowupImages } from '@/lib/image-attachments';
+import { savePromptTemplate } from '@/lib/prompt-templates';
+import {
+  type AgentGroup,
+  createAgentGroup,
+  deleteAgentGroup,
+  forgetAgentModel,
+  getAgentGroups,
+  getAgentModels,
+  indexGroupsByAgent,
+  recordAgentModels,
+  removeAgentFromGroups,
+} from '@/lib/agent-groups';
+import { type ObservedAgentState, deleteAgentHistory, recordAgentStates } from '@/lib/agent-history';
+import {
+  type NotificationSettings,
+  getNotificationSettings,
+  saveNotificationSettings,
+  showDesktopNotification,
+} from '@/lib/notifications';
+import {
+  type PrStatus,
+  type ReviewState,
+  fetchPrStatusesForAgents,
+  getCachedPrStatusesForAgents,
+  getGithubPrStatusError,
+  getGithubRateLimit,
+  mergePullRequest,
+  subscribeGithubPrStatusError,
+  subscribeGithubRateLimit,
+} from '@/lib/github-api';
+import { FIX_CI_FOLLOWUP, getDragAction, hasDragActions } from '@/lib/drag-actions';
+import {
+  type ColumnConfig,
+  BACKLOG_COLUMN,
+  DEFAULT_COLUMN_DISPLAY_ORDER,
+  getAgentFacts,
+  getColumnConfig,
+  resolveColumn,
+  saveColumnConfig,
+} from '@/lib/column-rules';
+import { forgetSentFollowup, getSentFollowups, recordSentFollowup } from '@/lib/sent-followups';
+import {
+  type BoardFilters,
+  type CardSort,
+  matchesBoardFilters,
+  readFiltersFromSearchParams,
+  readSortFromSearchParams,
+  sortBoardItems,
+  writeFiltersToSearchParams,
+  writeSortToSearchParams,
+} from '@/lib/board-filters';
+import {
+  type BoardView,
+  type BoardViewFields,
+  type ColumnLayout,
+  SHARED_VIEW_PARAM,
+  buildShareUrl,
+  deleteBoardView,
+  getBoardViews,
+  parseColumnLayout,
+  readSharedView,
+  saveBoardView,
+} from '@/lib/board-views';
+import {
+  type SwimlaneMode,
+  type SwimlaneSettings,
+  SWIMLANE_MODE_LABELS,
+  buildSwimlanes,
+  getSwimlaneSettings,
+  saveSwimlaneSettings,
+} from '@/lib/swimlanes';
+
+// How long a failed action's message stays on its card
+const CARD_ERROR_TIMEOUT = 8000;
+
+// How long a deleted draft can be restored from the toast
+const DRAFT_UNDO_WINDOW = 8000;
+
+// Board refresh interval. Slowed down while the drawer's live poll is spending the rate limit budget
+// (Cursor allows 30 requests/minute).
+const BOARD_POLL_INTERVAL = 30000;
+const BOARD_POLL_INTERVAL_DRAWER_OPEN = 90000;
 
-// Column configuration
-const COLUMNS: Record<string, { title: string; description: string }> = {
-  backlog: { title: 'Backlog', description: 'Drafts ready to launch' },
-  creating: { title: 'Starting', description: 'Agents being initialized' },
-  running: { title: 'In Progress', description: 'Agents currently working' },
-  needs_input: { title: 'Needs Input', description: 'Waiting for follow-up or no PR' },
-  failed: { title: 'Failed', description: 'Agents with errors' },
-  draft_pr: { title: 'Draft PR', description: 'PRs marked as draft' },
-  checks_failing: { title: 'Checks Failing', description: 'PRs with failing CI' },
-  has_conflict: { title: 'Has Conflict', description: 'PRs with merge conflicts' },
-  checks_pending: { title: 'Checks Running', description: 'CI checks in progress' },
-  awaiting_review: { title: 'Awaiting Review', description: 'Needs approval' },
-  approved: { title: 'Approved', description: 'Ready to merge' },
-  merged: { title: 'Merged/Closed', description: 'Completed PRs' },
-};
+// Status + conversation poll for the agent open in the drawer, while it's working
+const CONVERSATION_POLL_INTERVAL = 10000;
+
+// How close to the bottom (px) still counts as "following" the conversation
+const CONVERSATION_STICK_THRESHOLD = 80;
 
 const KANBAN_COLUMN_ORDER_STORAGE_KEY = 'cursor_cloud_agents_kanban_column_order';
 
-function getSavedColumnOrder(): string[] | null {
+function getSavedColumnLayout(): ColumnLayout | null {
   try {
     if (typeof window === 'undefined') return null;
     const raw = window.localStorage.getItem(KANBAN_COLUMN_ORDER_STORAGE_KEY);
     if (!raw) return null;
-    const parsed = JSON.parse(raw);
-    return Array.isArray(parsed) ? parsed.filter((x) => typeof x === 'string') : null;
+    return parseColumnLayout(JSON.parse(raw));
   } catch {
     return null;
   }
 }
 
-function saveColumnOrder(order: string[]): void {
+function saveColumnLayout(layout: ColumnLayout): void {
   try {
     if (typeof window === 'undefined') return;
-    window.localStorage.setItem(KANBAN_COLUMN_ORDER_STORAGE_KEY, JSON.stringify(order));
+    window.localStorage.setItem(KANBAN_COLUMN_ORDER_STORAGE_KEY, JSON.stringify(layout));
   } catch {
     // ignore persistence failures (e.g. private mode / full quota)
   }
@@ -137,82 +247,34 @@ function normalizeColumnOrder(order: string[], allColumns: string[]): string[] {
   return normalized;
 }
 
-// Map API status and PR info to column
-function getColumnForStatus(status: AgentStatus, prUrl?: string, prStatus?: PrStatus | null): string {
-  // Handle local drafts
-  if (status === 'DRAFT') {
-    return 'backlog';
-  }
-
-  // Handle creating/initializing agents
-  if (status === 'CREATING') {
-    return 'creating';
-  }
-
-  // Handle running agents
-  if (status === 'RUNNING') {
-    return 'running';
-  }
-
-  // Handle error/expired agents - treat as failed
-  // (Expired agents are filtered at the API layer and should not appear here.)
-  if (status === 'ERROR' || status === 'EXPIRED') {
-    return 'failed';
-  }
-
-  // For FINISHED agents, categorize based on PR status
-  if (status === 'FINISHED') {
-    // No PR URL - agent finished but didn't create a PR, needs input
-    if (!prUrl) {
-      return 'needs_input';
-    }
-
-    // No PR status fetched yet - show in awaiting review as fallback
-    if (!prStatus) {
-      return 'awaiting_review';
-    }
-
-    // PR is merged
-    if (prStatus.state === 'merged') {
-      return 'merged';
-    }
-
-    // PR is closed (but not merged)
-    if (prStatus.state === 'closed') {
-      return 'merged';
-    }
-
-    // PR is a draft
-    if (prStatus.isDraft) {
-      return 'draft_pr';
-    }
-
-    // PR has merge conflicts
-    if (prStatus.mergeable === false || prStatus.mergeableState === 'dirty') {
-      return 'has_conflict';
-    }
-
-    // PR has failing checks
-    if (prStatus.checksStatus === 'failure') {
-      return 'checks_failing';
-    }
-
-    // PR has pending checks
-    if (prStatus.checksStatus === 'pending') {
-      return 'checks_pending';
-    }
+function normalizeColumnLayout(layout: ColumnLayout, allColumns: string[]): ColumnLayout {
+  const allowed = new Set(allColumns);
+  return {
+    order: normalizeColumnOrder(layout.order, allColumns),
+    hidden: [...new Set(layout.hidden)].filter((key) => allowed.has(key)),
+    collapsed: [...new Set(layout.collapsed)].filter((key) => allowed.has(key)),
+  };
+}
 
-    // PR is approved
-    if (prStatus.hasApproval || prStatus.reviewDecision === 'APPROVED') {
-      return 'approved';
-    }
+function isSameLayout(a: ColumnLayout, b: ColumnLayout): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
 
-    // Default: awaiting review
-    return 'awaiting_review';
-  }
+// Whether the board currently shows exactly this view
+function isSameView(view: BoardViewFields, current: Omit<BoardViewFields, 'name'>, allColumns: string[]): boolean {
+  const filterKey = (filters: BoardFilters) => writeFiltersToSearchParams(filters, new URLSearchParams()).toString();
+  return (
+    view.sort === current.sort &&
+    filterKey(view.filters) === filterKey(current.filters) &&
+    isSameLayout(normalizeColumnLayout(view.layout, allColumns), normalizeColumnLayout(current.layout, allColumns))
+  );
+}
 
-  // Fallback
-  return 'needs_input';
+// Apply a reorder of the visible columns to the full order; hidden columns keep their slots
+function mergeVisibleOrder(order: string[], visibleOrder: string[]): string[] {
+  const visible = new Set(visibleOrder);
+  const next = [...visibleOrder];
+  return order.map((key) => (visible.has(key) ? (next.shift() ?? key) : key));
 }
 
 // Status badge colors
@@ -235,15 +297,32 @@ function getStatusBadge(status: AgentStatus) {
   }
 }
 
+// Reviewer badge colors
+function getReviewBadge(state: ReviewState) {
+  switch (state) {
+    case 'APPROVED':
+      return { variant: 'success' as const, icon: <CheckCircle2 className="size-3" /> };
+    case 'CHANGES_REQUESTED':
+      return { variant: 'warning' as const, icon: <MessageSquareWarning className="size-3" /> };
+    default:
+      return { variant: 'secondary' as const, icon: <Eye className="size-3" /> };
+  }
+}
+
 // Agent card component
 interface AgentCardProps {
   agent: Agent | DraftAgent;
   isDraft?: boolean;
   prStatus?: PrStatus | null;
+  error?: string;
+  group?: AgentGroup;
+  // Whether the card can be dragged onto another column (see drag-actions)
+  draggable?: boolean;
   onClick?: () => void;
+  onDismissError?: () => void;
 }
 
-function AgentCard({ agent, isDraft, prStatus, onClick }: AgentCardProps) {
+function AgentCard({ agent, isDraft, prStatus, error, group, draggable, onClick, onDismissError }: AgentCardProps) {
   const status = isDraft ? 'DRAFT' : (agent as Agent).status;
   const { variant, icon } = getStatusBadge(status);
   const source = isDraft
@@ -267,7 +346,7 @@ function AgentCard({ agent, isDraft, prStatus, onClick }: AgentCardProps) {
           <GitBranch className="size-3" />
           <span className="line-clamp-1">{source.repository.split('/').slice(-2).join('/')}</span>
           <span className="text-muted-foreground/50">•</span>
-          <span>{source.ref}</span>
+          <span>{source.ref || 'default branch'}</span>
         </div>
         {!isDraft && (agent as Agent).summary && (
           <p className="text-muted-foreground text-xs line-clamp-2">{(agent as Agent).summary}</p>
@@ -337,7 +416,13 @@ function AgentCard({ agent, isDraft, prStatus, onClick }: AgentCardProps) {
                     <span>Running</span>
                   </span>
                 )}
-                {/* Approval indicator */}
+                {/* Review indicators */}
+                {prStatus.state === 'open' && prStatus.reviewDecision === 'CHANGES_REQUESTED' && (
+                  <span className="flex items-center gap-1 text-orange-600 dark:text-orange-500">
+                    <MessageSquareWarning className="size-3" />
+                    <span>Changes</span>
+                  </span>
+                )}
                 {prStatus.state === 'open' && prStatus.hasApproval && (
                   <span className="flex items-center gap-1 text-green-600 dark:text-green-500">
                     <CheckCircle2 className="size-3" />
@@ -348,20 +433,44 @@ function AgentCard({ agent, isDraft, prStatus, onClick }: AgentCardProps) {
             )}
           </div>
         )}
-        <time className="text-[10px] text-muted-foreground/60 tabular-nums">
-          {new Date(agent.createdAt).toLocaleDateString('en-US', {
-            month: 'short',
-            day: 'numeric',
-            hour: '2-digit',
-            minute: '2-digit',
-          })}
-        </time>
+        {error && (
+          <div className="flex items-start gap-1.5 rounded-sm bg-destructive/10 px-2 py-1 text-xs text-destructive">
+            <XCircle className="size-3 mt-0.5 shrink-0" />
+            <span className="flex-1 line-clamp-2">{error}</span>
+            <button
+              type="button"
+              className="shrink-0 opacity-70 hover:opacity-100"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDismissError?.();
+              }}
+            >
+              <X className="size-3" />
+            </button>
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-2 text-[10px] text-muted-foreground/60">
+          <time className="tabular-nums">
+            {new Date(agent.createdAt).toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+          </time>
+          {group && (
+            <span className="flex items-center gap-1 min-w-0" title={`Group: ${group.name} (${group.agentIds.length} agents)`}>
+              <Layers className="size-3 shrink-0" />
+              <span className="truncate">{group.name}</span>
+            </span>
+          )}
+        </div>
       </div>
     </div>
   );
 
   return (
-    <KanbanItem value={agent.id} disabled>
+    <KanbanItem value={agent.id} disabled={!draggable}>
       <KanbanItemHandle>{cardContent}</KanbanItemHandle>
     </KanbanItem>
   );
@@ -370,22 +479,99 @@ function AgentCard({ agent, isDraft, prStatus, onClick }: AgentCardProps) {
 // Column component
 interface AgentColumnProps {
   columnKey: string;
+  title: string;
+  description: string;
   agents: (Agent | DraftAgent)[];
   drafts?: DraftAgent[];
   prStatuses: Map<string, PrStatus>;
+  cardErrors: Record<string, string>;
+  groupsByAgent: Map<string, AgentGroup>;
+  // Whether any drop from this column means something
+  draggable: boolean;
+  acceptsDrop: (itemId: string, fromColumn: string) => boolean;
+  // Rendered as a thin strip with just the title and count
+  collapsed: boolean;
+  onToggleCollapsed: () => void;
   onAgentClick: (agent: Agent | DraftAgent, isDraft: boolean) => void;
+  onDismissCardError: (id: string) => void;
   onAddClick?: () => void;
 }
 
-function AgentColumn({ columnKey, agents, drafts = [], prStatuses, onAgentClick, onAddClick }: AgentColumnProps) {
-  const config = COLUMNS[columnKey];
+const COLUMN_DROP_TARGET_CLASSES =
+  'transition-colors data-[drop-target=accept]:border-primary data-[drop-target=accept]:bg-primary/5 data-[drop-target=reject]:opacity-50';
+
+function AgentColumn({
+  columnKey,
+  title,
+  description,
+  agents,
+  drafts = [],
+  prStatuses,
+  cardErrors,
+  groupsByAgent,
+  draggable,
+  acceptsDrop,
+  collapsed,
+  onToggleCollapsed,
+  onAgentClick,
+  onDismissCardError,
+  onAddClick,
+}: AgentColumnProps) {
   const items = columnKey === 'backlog' ? drafts : agents;
+  const rendered = new Set<string>();
+
+  const renderCard = (agent: Agent | DraftAgent) => (
+    <AgentCard
+      key={agent.id}
+      agent={agent}
+      isDraft={columnKey === 'backlog'}
+      prStatus={prStatuses.get(agent.id)}
+      error={cardErrors[agent.id]}
+      group={groupsByAgent.get(agent.id)}
+      draggable={draggable}
+      onClick={() => onAgentClick(agent, columnKey === 'backlog')}
+      onDismissError={() => onDismissCardError(agent.id)}
+    />
+  );
+
+  // Still a drop target, so drag actions work on collapsed columns too
+  if (collapsed) {
+    return (
+      <KanbanColumn
+        value={columnKey}
+        accepts={acceptsDrop}
+        className={`rounded-md border bg-card py-2.5 shadow-xs w-10 flex-shrink-0 flex flex-col items-center gap-2 h-full ${COLUMN_DROP_TARGET_CLASSES}`}
+      >
+        <Button variant="dim" size="sm" mode="icon" onClick={onToggleCollapsed} className="h-7 w-7" title="Expand column">
+          <ChevronsLeftRight className="size-4" />
+        </Button>
+        <Badge variant="secondary">{items.length}</Badge>
+        <button
+          type="button"
+          onClick={onToggleCollapsed}
+          title={description}
+          className="flex-1 min-h-0 overflow-hidden text-sm font-semibold [writing-mode:vertical-rl]"
+        >
+          {title}
+        </button>
+        <KanbanColumnHandle asChild>
+          <Button variant="dim" size="sm" mode="icon" className="h-7 w-7">
+            <GripVertical className="size-4" />
+          </Button>
+        </KanbanColumnHandle>
+      </KanbanColumn>
+    );
+  }
 
   return (
-    <KanbanColumn value={columnKey} className="rounded-md border bg-card p-2.5 shadow-xs min-w-[280px] w-[280px] flex-shrink-0 flex flex-col h-full">
+    <KanbanColumn
+      value={columnKey}
+      accepts={acceptsDrop}
+      className={`rounded-md border bg-card p-2.5 shadow-xs min-w-[280px] w-[280px] flex-shrink-0 flex flex-col h-full ${COLUMN_DROP_TARGET_CLASSES}`}
+    >
       <div className="flex items-center justify-between mb-2.5 flex-shrink-0">
         <div className="flex items-center gap-2">
-          <span className="font-semibold text-sm">{config.title}</span>
+          <span className="font-semibold text-sm" title={description}>{title}</span>
           <Badge variant="secondary">{items.length}</Badge>
         </div>
         <div className="flex items-center gap-1">
@@ -394,6 +580,9 @@ function AgentColumn({ columnKey, agents, drafts = [], prStatuses, onAgentClick,
               <Plus className="size-4" />
             </Button>
           )}
+          <Button variant="dim" size="sm" mode="icon" onClick={onToggleCollapsed} className="h-7 w-7" title="Collapse column">
+            <ChevronsRightLeft className="size-4" />
+          </Button>
           <KanbanColumnHandle asChild>
             <Button variant="dim" size="sm" mode="icon" className="h-7 w-7">
               <GripVertical className="size-4" />
@@ -403,15 +592,29 @@ function AgentColumn({ columnKey, agents, drafts = [], prStatuses, onAgentClick,
       </div>
       <ScrollArea className="flex-1 min-h-0">
         <KanbanColumnContent value={columnKey} className="flex flex-col gap-2 p-0.5 pr-2">
-          {items.map((agent) => (
-            <AgentCard
-              key={agent.id}
-              agent={agent}
-              isDraft={columnKey === 'backlog'}
-              prStatus={prStatuses.get(agent.id)}
-              onClick={() => onAgentClick(agent, columnKey === 'backlog')}
-            />
-          ))}
+          {items.map((agent) => {
+            if (rendered.has(agent.id)) return null;
+
+            // Siblings that landed in the same column are stacked together
+            const group = groupsByAgent.get(agent.id);
+            const siblings = group ? items.filter((item) => group.agentIds.includes(item.id)) : [];
+            if (group && siblings.length > 1) {
+              siblings.forEach((sibling) => rendered.add(sibling.id));
+              return (
+                <div key={group.id} className="rounded-md border border-dashed bg-muted/30 p-1.5 flex flex-col gap-1.5">
+                  <div className="flex items-center gap-1 px-1 text-xs text-muted-foreground">
+                    <Layers className="size-3 shrink-0" />
+                    <span className="truncate">{group.name}</span>
+                    <span className="ml-auto shrink-0 tabular-nums">
+                      {siblings.length}/{group.agentIds.length}
+                    </span>
+                  </div>
+                  {siblings.map(renderCard)}
+                </div>
+              );
+            }
+            return renderCard(agent);
+          })}
         </KanbanColumnContent>
       </ScrollArea>
     </KanbanColumn>
@@ -419,18 +622,186 @@ function AgentColumn({ columnKey, agents, drafts = [], prStatuses, onAgentClick,
 }
 
 // Conversation message component
-function ConversationMessageItem({ message }: { message: ConversationMessage }) {
+// Keep already-rendered messages (same objects) and append the ones we haven't seen yet
+function mergeConversation(prev: Conversation | null, next: Conversation): Conversation {
+  if (!prev || prev.id !== next.id) return next;
+  const seen = new Set(prev.messages.map((message) => message.id));
+  const added = next.messages.filter((message) => !seen.has(message.id));
+  return added.length > 0 ? { ...prev, messages: [...prev.messages, ...added] } : prev;
+}
+
+function ConversationMessageItem({ message, agent }: { message: ConversationMessage; agent: Agent }) {
   const isUser = message.type === 'user_message';
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div
-        className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+        className={`max-w-[85%] min-w-0 rounded-lg px-3 py-2 text-sm ${
           isUser
             ? 'bg-primary text-primary-foreground'
             : 'bg-muted text-foreground'
         }`}
       >
-        <p className="whitespace-pre-wrap">{message.text}</p>
+        <MarkdownMessage
+          text={message.text}
+          repository={agent.source.repository}
+          branch={agent.target?.branchName ?? agent.source.ref}
+          inverted={isUser}
+        />
+      </div>
+    </div>
+  );
+}
+
+// One-line CI summary for the comparison view
+function getChecksSummary(agent: Agent, prStatus?: PrStatus | null) {
+  if (!agent.target?.prUrl) return { label: 'No PR', icon: <GitPullRequestDraft className="size-3" />, className: '' };
+  if (prStatus?.state === 'merged') {
+    return { label: 'Merged', icon: <CheckCircle2 className="size-3" />, className: 'text-purple-600 dark:text-purple-400' };
+  }
+  switch (prStatus?.checksStatus) {
+    case 'success':
+      return { label: 'Checks passing', icon: <ShieldCheck className="size-3" />, className: 'text-green-600 dark:text-green-500' };
+    case 'failure':
+      return { label: 'Checks failing', icon: <ShieldAlert className="size-3" />, className: 'text-destructive' };
+    case 'pending':
+      return { label: 'Checks running', icon: <Loader2 className="size-3 animate-spin" />, className: 'text-yellow-600 dark:text-yellow-500' };
+    default:
+      return { label: 'No checks', icon: <Eye className="size-3" />, className: '' };
+  }
+}
+
+// Side-by-side view of the agents in a group (fan-out siblings), shown in the drawer
+interface AgentGroupComparisonProps {
+  group: AgentGroup;
+  // Siblings still on the board, in launch order
+  agents: Agent[];
+  selectedId: string;
+  prStatuses: Map<string, PrStatus>;
+  // Model recorded at launch, per agent id ('' = Auto)
+  agentModels: Record<string, string>;
+  columnTitleFor: (agent: Agent) => string;
+  onSelect: (agent: Agent) => void;
+  onKeep: (agent: Agent) => Promise<void>;
+  onUngroup: () => void;
+}
+
+function AgentGroupComparison({
+  group,
+  agents,
+  selectedId,
+  prStatuses,
+  agentModels,
+  columnTitleFor,
+  onSelect,
+  onKeep,
+  onUngroup,
+}: AgentGroupComparisonProps) {
+  const [messageCounts, setMessageCounts] = React.useState<Record<string, number>>({});
+  const [confirmKeepId, setConfirmKeepId] = React.useState<string | null>(null);
+  const [isKeeping, setIsKeeping] = React.useState(false);
+  const agentIds = agents.map((agent) => agent.id).join(',');
+
+  // Conversation length per sibling; background priority, and unchanged conversations come back as 304s
+  React.useEffect(() => {
+    let cancelled = false;
+    for (const id of agentIds.split(',').filter(Boolean)) {
+      getConversation(id, 'background')
+        .then((convo) => {
+          if (!cancelled) setMessageCounts((prev) => ({ ...prev, [id]: convo.messages.length }));
+        })
+        .catch(() => {
+          // count stays unknown
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [agentIds]);
+
+  const handleKeep = async (agent: Agent) => {
+    setIsKeeping(true);
+    try {
+      await onKeep(agent);
+    } finally {
+      setIsKeeping(false);
+      setConfirmKeepId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="flex items-center gap-1.5 min-w-0">
+          <Layers className="size-4 shrink-0" />
+          <span className="truncate">{group.name}</span>
+          <span className="text-muted-foreground font-normal shrink-0">· {agents.length} agents</span>
+        </Label>
+        <Button variant="ghost" size="sm" onClick={onUngroup}>
+          Ungroup
+        </Button>
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {agents.map((agent) => {
+          const isSelected = agent.id === selectedId;
+          const checks = getChecksSummary(agent, prStatuses.get(agent.id));
+          const { variant, icon } = getStatusBadge(agent.status);
+          const others = agents.length - 1;
+
+          return (
+            <div
+              key={agent.id}
+              className={`w-52 shrink-0 rounded-md border p-2 flex flex-col gap-1.5 text-xs ${
+                isSelected ? 'border-primary bg-primary/5' : 'bg-card'
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(agent)}
+                disabled={isSelected}
+                className="text-left font-medium text-sm line-clamp-1 enabled:hover:underline"
+                title={agent.name}
+              >
+                {agent.id in agentModels ? agentModels[agent.id] || 'Auto' : agent.name}
+              </button>
+              <div className="text-muted-foreground line-clamp-1">
+                {agent.source.repository.split('/').slice(-2).join('/')}
+              </div>
+              <div className="flex items-center gap-1.5 flex-wrap">
+                <Badge variant={variant} appearance="outline" size="sm">
+                  {icon}
+                  {agent.status}
+                </Badge>
+                <span className="text-muted-foreground">{columnTitleFor(agent)}</span>
+              </div>
+              <p className="text-muted-foreground line-clamp-3 min-h-[3lh]">{agent.summary || 'No summary yet'}</p>
+              <div className="flex items-center justify-between gap-2 text-muted-foreground">
+                <span className={`flex items-center gap-1 ${checks.className}`}>
+                  {checks.icon}
+                  {checks.label}
+                </span>
+                <span className="flex items-center gap-1" title="Conversation messages">
+                  <MessageSquare className="size-3" />
+                  {messageCounts[agent.id] ?? '–'}
+                </span>
+              </div>
+              {confirmKeepId === agent.id ? (
+                <div className="flex gap-1">
+                  <Button size="sm" variant="destructive" className="flex-1" disabled={isKeeping} onClick={() => handleKeep(agent)}>
+                    {isKeeping && <Loader2 className="size-3 animate-spin" />}
+                    Delete {others} other{others === 1 ? '' : 's'}
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={isKeeping} onClick={() => setConfirmKeepId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <Button size="sm" variant="outline" disabled={isKeeping} onClick={() => setConfirmKeepId(agent.id)}>
+                  Keep this one
+                </Button>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -439,18 +810,54 @@ function ConversationMessageItem({ message }: { message: ConversationMessage })
 // Main Kanban component
 interface CloudAgentsKanbanProps {
   apiKeySet: boolean;
+  githubTokenSet: boolean;
   onOpenSettings: () => void;
+  onOpenGithubSettings: () => void;
 }
 
-export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAgentsKanbanProps) {
+export default function CloudAgentsKanban({
+  apiKeySet,
+  githubTokenSet,
+  onOpenSettings,
+  onOpenGithubSettings,
+}: CloudAgentsKanbanProps) {
   // State
   const [agents, setAgents] = React.useState<Agent[]>([]);
   const [drafts, setDrafts] = React.useState<DraftAgent[]>([]);
+  // A view opened from a shared link wins over the URL filters and the saved layout
+  const [sharedView] = React.useState(() => readSharedView(new URLSearchParams(window.location.search)));
+  const [boardFilters, setBoardFilters] = React.useState<BoardFilters>(
+    () => sharedView?.filters ?? readFiltersFromSearchParams(new URLSearchParams(window.location.search))
+  );
+  const [cardSort, setCardSort] = React.useState<CardSort>(
+    () => sharedView?.sort ?? readSortFromSearchParams(new URLSearchParams(window.location.search))
+  );
+  const [boardViews, setBoardViews] = React.useState<BoardView[]>(() => getBoardViews());
   const [prStatuses, setPrStatuses] = React.useState<Map<string, PrStatus>>(new Map());
   const [isLoading, setIsLoading] = React.useState(false);
   const [isFetchingPrStatus, setIsFetchingPrStatus] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
+  const [rateLimitedUntil, setRateLimitedUntil] = React.useState<number | null>(null);
+  const [now, setNow] = React.useState(() => Date.now());
+  // Failures of per-agent actions, shown on the card until dismissed or timed out
+  const [cardErrors, setCardErrors] = React.useState<Record<string, string>>({});
+  const [createError, setCreateError] = React.useState<string | null>(null);
+  // Locally tagged sibling agents (fan-out launches)
+  const [agentGroups, setAgentGroups] = React.useState<AgentGroup[]>(getAgentGroups);
+  const groupsByAgent = React.useMemo(() => indexGroupsByAgent(agentGroups), [agentGroups]);
+  // Model each agent was launched with from this browser
+  const [agentModels, setAgentModels] = React.useState<Record<string, string>>(getAgentModels);
+
+  // Desktop notifications
+  const [notificationSettings, setNotificationSettings] = React.useState<NotificationSettings>(getNotificationSettings);
+  const [isNotificationSettingsOpen, setIsNotificationSettingsOpen] = React.useState(false);
+  // Last settled column per agent, to detect transitions between polls
+  const lastColumnsRef = React.useRef<Map<string, string>>(new Map());
+  // Latest drawer opener, for notification clicks fired long after the render that created them
+  const openAgentRef = React.useRef<(agent: Agent) => void>(() => {});
   const [lastRefresh, setLastRefresh] = React.useState<Date | null>(null);
+  const githubRateLimit = React.useSyncExternalStore(subscribeGithubRateLimit, getGithubRateLimit);
+  const githubPrStatusError = React.useSyncExternalStore(subscribeGithubPrStatusError, getGithubPrStatusError);
 
   // Drawer state
   const [selectedAgent, setSelectedAgent] = React.useState<Agent | DraftAgent | null>(null);
@@ -459,7 +866,11 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
   const [conversation, setConversation] = React.useState<Conversation | null>(null);
   const [isLoadingConversation, setIsLoadingConversation] = React.useState(false);
   const [followupText, setFollowupText] = React.useState('');
+  const [followupImages, setFollowupImages] = React.useState<ImageAttachment[]>([]);
   const [isSendingFollowup, setIsSendingFollowup] = React.useState(false);
+  const conversationEndRef = React.useRef<HTMLDivElement>(null);
+  // Whether the conversation is scrolled to (near) the bottom, so new messages should scroll into view
+  const stickToBottomRef = React.useRef(true);
 
   // Create form state
   const [isCreateOpen, setIsCreateOpen] = React.useState(false);
@@ -471,28 +882,225 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
     name: '',
     repository: '',
     customRepo: '',
-    ref: 'main',
+    // Empty until the repository's default branch is known
+    ref: '',
     prompt: '',
     model: '',
+    target: {} as AgentTargetOptions,
+    // Fan-out: one agent per repository x model ('' model = Auto)
+    fanOut: false,
+    fanOutRepositories: [] as string[],
+    fanOutModels: [] as string[],
   });
   const [isCreating, setIsCreating] = React.useState(false);
+  // Repository whose remembered options are loaded into the create form
+  const appliedRepositoryRef = React.useRef('');
+  const [pendingDragAction, setPendingDragAction] = React.useState<PendingDragAction | null>(null);
+  const [isRunningDragAction, setIsRunningDragAction] = React.useState(false);
+
+  // Column definitions and the rules that place agents in them (editable, persisted locally)
+  const [columnConfig, setColumnConfig] = React.useState<ColumnConfig>(() => getColumnConfig());
+  const [isColumnRulesOpen, setIsColumnRulesOpen] = React.useState(false);
+  const [sentFollowups, setSentFollowups] = React.useState<Record<string, string>>(() => getSentFollowups());
+  const boardColumns = React.useMemo(() => [BACKLOG_COLUMN, ...columnConfig.columns], [columnConfig]);
+  const columnsById = React.useMemo(() => new Map(boardColumns.map((column) => [column.id, column])), [boardColumns]);
+
+  const getColumnForAgent = React.useCallback(
+    (agent: Agent) =>
+      resolveColumn(columnConfig, getAgentFacts(agent, prStatuses.get(agent.id), agent.id in sentFollowups)),
+    [columnConfig, prStatuses, sentFollowups]
+  );
 
   // Column order (persisted locally)
-  const allColumnKeys = React.useMemo(() => Object.keys(COLUMNS), []);
-  const [columnOrder, setColumnOrder] = React.useState<string[]>(() => {
-    const saved = getSavedColumnOrder();
-    return normalizeColumnOrder(saved ?? allColumnKeys, allColumnKeys);
+  // Default (and new-column) placement follows the original board layout, not the matching ladder
+  const allColumnKeys = React.useMemo(
+    () => normalizeColumnOrder(DEFAULT_COLUMN_DISPLAY_ORDER, boardColumns.map((column) => column.id)),
+    [boardColumns]
+  );
+  const columnTitles = React.useMemo(
+    () => Object.fromEntries(boardColumns.map((column) => [column.id, column.title])),
+    [boardColumns]
+  );
+  const [columnLayout, setColumnLayout] = React.useState<ColumnLayout>(() => {
+    const saved = sharedView?.layout ?? getSavedColumnLayout();
+    return normalizeColumnLayout(saved ?? { order: allColumnKeys, hidden: [], collapsed: [] }, allColumnKeys);
   });
+  // A shared view's layout stays in memory until a view is applied or saved or the user changes the
+  // layout, so just opening a link doesn't overwrite the recipient's own layout
+  const [isLayoutPersisted, setIsLayoutPersisted] = React.useState(() => !sharedView);
+  const visibleColumnOrder = React.useMemo(
+    () => columnLayout.order.filter((key) => !columnLayout.hidden.includes(key)),
+    [columnLayout]
+  );
 
   React.useEffect(() => {
     // Keep localStorage in sync with any changes (including new columns after deploy)
-    const normalized = normalizeColumnOrder(columnOrder, allColumnKeys);
-    if (normalized.join('|') !== columnOrder.join('|')) {
-      setColumnOrder(normalized);
+    const normalized = normalizeColumnLayout(columnLayout, allColumnKeys);
+    if (!isSameLayout(normalized, columnLayout)) {
+      setColumnLayout(normalized);
       return;
     }
-    saveColumnOrder(normalized);
-  }, [allColumnKeys, columnOrder]);
+    if (isLayoutPersisted) saveColumnLayout(normalized);
+  }, [allColumnKeys, columnLayout, isLayoutPersisted]);
+
+  // Swimlane mode and folded lanes (persisted locally)
+  const [swimlaneSettings, setSwimlaneSettings] = React.useState<SwimlaneSettings>(() => getSwimlaneSettings());
+
+  React.useEffect(() => {
+    saveSwimlaneSettings(swimlaneSettings);
+  }, [swimlaneSettings]);
+
+  // Mirror the filters and sort into the URL (replacing, so typing doesn't flood the back button).
+  // A shared view's parameter is dropped once it has been applied.
+  React.useEffect(() => {
+    const current = new URLSearchParams(window.location.search);
+    current.delete(SHARED_VIEW_PARAM);
+    const params = writeSortToSearchParams(cardSort, writeFiltersToSearchParams(boardFilters, current));
+    const search = params.toString();
+    if (search !== window.location.search.replace(/^\?/, '')) {
+      const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [boardFilters, cardSort]);
+
+  React.useEffect(() => {
+    const handlePopState = () => {
+      const params = new URLSearchParams(window.location.search);
+      setBoardFilters(readFiltersFromSearchParams(params));
+      setCardSort(readSortFromSearchParams(params));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Offer to keep a view that arrived by link (once, despite StrictMode's double effects)
+  const sharedViewAnnouncedRef = React.useRef(false);
+  React.useEffect(() => {
+    if (!sharedView || sharedViewAnnouncedRef.current) return;
+    sharedViewAnnouncedRef.current = true;
+    toast({
+      title: 'Shared view opened',
+      description: sharedView.name,
+      action: {
+        label: 'Save view',
+        onClick: () => {
+          saveBoardView(sharedView);
+          setBoardViews(getBoardViews());
+          setIsLayoutPersisted(true);
+        },
+      },
+    });
+  }, [sharedView]);
+
+  const currentViewFields = { filters: boardFilters, layout: columnLayout, sort: cardSort };
+  const activeViewId = boardViews.find((view) => isSameView(view, currentViewFields, allColumnKeys))?.id ?? null;
+
+  const handleApplyView = (view: BoardView) => {
+    setBoardFilters(view.filters);
+    setCardSort(view.sort);
+    setColumnLayout(normalizeColumnLayout(view.layout, allColumnKeys));
+    setIsLayoutPersisted(true);
+  };
+
+  const handleSaveView = (name: string) => {
+    saveBoardView({ name, ...currentViewFields });
+    setBoardViews(getBoardViews());
+    setIsLayoutPersisted(true);
+    toast.success('View saved', name);
+  };
+
+  const handleDeleteView = (id: string) => {
+    deleteBoardView(id);
+    setBoardViews(getBoardViews());
+  };
+
+  const handleShareView = async (view: BoardView | null) => {
+    const url = buildShareUrl(view ?? { name: 'Shared board', ...currentViewFields });
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link copied', view?.name);
+    } catch {
+      toast.error('Could not copy the link', url);
+    }
+  };
+
+  // Layout changes made by the user; one made on top of a shared view adopts it as the saved layout
+  const changeColumnLayout = (update: (prev: ColumnLayout) => ColumnLayout) => {
+    setColumnLayout(update);
+    setIsLayoutPersisted(true);
+  };
+
+  const toggleColumnHidden = (key: string) => {
+    changeColumnLayout((prev) => ({
+      ...prev,
+      hidden: prev.hidden.includes(key) ? prev.hidden.filter((k) => k !== key) : [...prev.hidden, key],
+    }));
+  };
+
+  const toggleColumnCollapsed = (key: string) => {
+    changeColumnLayout((prev) => ({
+      ...prev,
+      collapsed: prev.collapsed.includes(key) ? prev.collapsed.filter((k) => k !== key) : [...prev.collapsed, key],
+    }));
+  };
+
+  // Side effects shared by every failed API call: re-prompt for the key on auth errors and
+  // start the countdown banner on rate limits. Returns a message suitable for display.
+  const handleApiError = React.useCallback(
+    (err: unknown, fallback: string): string => {
+      if (err instanceof AuthError) {
+        onOpenSettings();
+      } else if (err instanceof RateLimitError) {
+        // The countdown's first render needs a current clock, not the last tick's
+        setNow(Date.now());
+        setRateLimitedUntil(err.retryAt);
+      }
+      return getErrorMessage(err, fallback);
+    },
+    [onOpenSettings]
+  );
+
+  const dismissCardError = React.useCallback((id: string) => {
+    setCardErrors((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  const showCardError = React.useCallback(
+    (id: string, message: string) => {
+      setCardErrors((prev) => ({ ...prev, [id]: message }));
+      setTimeout(() => dismissCardError(id), CARD_ERROR_TIMEOUT);
+    },
+    [dismissCardError]
+  );
+
+  // A failed action on one agent: keep the message on its card and raise a toast
+  const reportActionError = React.useCallback(
+    (id: string, err: unknown, title: string) => {
+      console.error(`${title}:`, err);
+      const message = handleApiError(err, title);
+      showCardError(id, message);
+      toast.error(title, message);
+    },
+    [handleApiError, showCardError]
+  );
+
+  // Fetch PR statuses for agents with PRs (in background)
+  const loadPrStatuses = React.useCallback((forAgents: Agent[]) => {
+    setIsFetchingPrStatus(true);
+    fetchPrStatusesForAgents(forAgents)
+      .then((statuses) => {
+        setPrStatuses(statuses);
+      })
+      .catch((err) => {
+        console.warn('Failed to fetch PR statuses:', err);
+      })
+      .finally(() => {
+        setIsFetchingPrStatus(false);
+      });
+  }, []);
 
   // Load agents from API
   const loadAgents = React.useCallback(async () => {
@@ -505,31 +1113,58 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
       const fetchedAgents = await getAllAgents();
       setAgents(fetchedAgents);
       setLastRefresh(new Date());
-
-      // Fetch PR statuses for agents with PRs (in background)
-      setIsFetchingPrStatus(true);
-      fetchPrStatusesForAgents(fetchedAgents)
-        .then((statuses) => {
-          setPrStatuses(statuses);
-        })
-        .catch((err) => {
-          console.warn('Failed to fetch PR statuses:', err);
-        })
-        .finally(() => {
-          setIsFetchingPrStatus(false);
-        });
+      loadPrStatuses(fetchedAgents);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load agents');
+      setError(handleApiError(err, 'Failed to load agents'));
     } finally {
       setIsLoading(false);
     }
-  }, [apiKeySet]);
+  }, [apiKeySet, handleApiError, loadPrStatuses]);
+
+  // Tick the rate-limit countdown and retry once it has elapsed
+  React.useEffect(() => {
+    if (rateLimitedUntil === null) return;
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= rateLimitedUntil) {
+        setRateLimitedUntil(null);
+        loadAgents();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [rateLimitedUntil, loadAgents]);
 
   // Load drafts from localStorage
   const loadDrafts = React.useCallback(() => {
     setDrafts(getDrafts());
   }, []);
 
+  // Render the last known board from the persisted HTTP cache while the first fetch is in flight
+  React.useEffect(() => {
+    if (!apiKeySet) return;
+
+    let cancelled = false;
+    getCachedAgents()
+      .then(async (cachedAgents) => {
+        if (!cachedAgents || cancelled) return;
+        const cachedStatuses = await getCachedPrStatusesForAgents(cachedAgents);
+        if (cancelled) return;
+        // Never overwrite fresher data from a fetch that finished first
+        setAgents((prev) => (prev.length > 0 ? prev : cachedAgents));
+        setPrStatuses((prev) => (prev.size > 0 ? prev : cachedStatuses));
+      })
+      .catch((err) => {
+        console.warn('Failed to read cached agents:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiKeySet]);
+
   // Initial load
   React.useEffect(() => {
     if (apiKeySet) {
@@ -538,56 +1173,229 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
     }
   }, [apiKeySet, loadAgents, loadDrafts]);
 
-  // Auto-polling every 30 seconds (pause when drawer is open)
-  // Rate limit is 30 requests/minute, so 30s interval keeps us well under
+  // Refetch PR statuses when the GitHub token is added or removed, without waiting for the next poll
+  const lastGithubTokenSetRef = React.useRef(githubTokenSet);
   React.useEffect(() => {
-    if (!apiKeySet || isDrawerOpen) return;
+    if (lastGithubTokenSetRef.current === githubTokenSet) return;
+    lastGithubTokenSetRef.current = githubTokenSet;
+    loadPrStatuses(agents);
+  }, [githubTokenSet, agents, loadPrStatuses]);
+
+  // Auto-polling; slower while the drawer is open since it polls the selected agent itself
+  React.useEffect(() => {
+    if (!apiKeySet) return;
 
     const interval = setInterval(() => {
       loadAgents();
-    }, 30000);
+    }, isDrawerOpen ? BOARD_POLL_INTERVAL_DRAWER_OPEN : BOARD_POLL_INTERVAL);
 
     return () => clearInterval(interval);
   }, [apiKeySet, isDrawerOpen, loadAgents]);
 
+  // Keep the drawer's agent in sync with the latest poll (status, summary, PR link)
+  React.useEffect(() => {
+    if (selectedIsDraft) return;
+    setSelectedAgent((prev) => {
+      if (!prev) return prev;
+      const fresh = agents.find((agent) => agent.id === prev.id);
+      return fresh ?? prev;
+    });
+  }, [agents, selectedIsDraft]);
+
+  const selectedAgentId = selectedAgent && !selectedIsDraft ? selectedAgent.id : null;
+  const selectedIsWorking =
+    !selectedIsDraft && !!selectedAgent && ['CREATING', 'RUNNING'].includes((selectedAgent as Agent).status);
+
+  // Live conversation for a working agent in the drawer: new messages are appended as they arrive
+  React.useEffect(() => {
+    if (!isDrawerOpen || !selectedAgentId || !selectedIsWorking) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        // Status first, so the conversation fetched after it includes everything up to that status
+        const agent = await getAgent(selectedAgentId);
+        const convo = await getConversation(selectedAgentId, 'background');
+        if (cancelled) return;
+        setConversation((prev) => mergeConversation(prev, convo));
+        setAgents((prev) => prev.map((a) => (a.id === agent.id ? agent : a)));
+      } catch (err) {
+        if (cancelled) return;
+        if (err instanceof AuthError || err instanceof RateLimitError) {
+          handleApiError(err, 'Failed to refresh conversation');
+        } else {
+          console.warn('Failed to refresh conversation:', err);
+        }
+      }
+    };
+
+    const interval = setInterval(poll, CONVERSATION_POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [isDrawerOpen, selectedAgentId, selectedIsWorking, handleApiError]);
+
+  // Track whether the reader is following the bottom of the conversation
+  React.useEffect(() => {
+    if (!isDrawerOpen || !selectedAgentId) return;
+    stickToBottomRef.current = true;
+    const viewport = conversationEndRef.current?.closest('[data-slot="scroll-area-viewport"]');
+    if (!viewport) return;
+
+    const handleScroll = () => {
+      stickToBottomRef.current =
+        viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < CONVERSATION_STICK_THRESHOLD;
+    };
+    viewport.addEventListener('scroll', handleScroll, { passive: true });
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  }, [isDrawerOpen, selectedAgentId]);
+
+  // Auto-scroll to new messages unless the reader has scrolled up
+  const conversationLength = conversation?.messages.length ?? 0;
+  React.useEffect(() => {
+    if (!stickToBottomRef.current) return;
+    const viewport = conversationEndRef.current?.closest('[data-slot="scroll-area-viewport"]');
+    viewport?.scrollTo({ top: viewport.scrollHeight });
+  }, [conversationLength, selectedIsWorking]);
+
+  // Board filters narrow what's shown; notifications and history still see every agent
+  const filteredAgents = React.useMemo(
+    () => agents.filter((agent) => matchesBoardFilters(agent, false, boardFilters)),
+    [agents, boardFilters]
+  );
+  const filteredDrafts = React.useMemo(
+    () => sortBoardItems(drafts.filter((draft) => matchesBoardFilters(draft, true, boardFilters)), cardSort),
+    [drafts, boardFilters, cardSort]
+  );
+
+  const filterOptions = React.useMemo(() => {
+    const repositories = new Set<string>();
+    const refs = new Set<string>();
+    for (const agent of agents) {
+      repositories.add(agent.source.repository);
+      refs.add(agent.source.ref);
+    }
+    for (const draft of drafts) {
+      repositories.add(draft.repository);
+      refs.add(draft.ref);
+    }
+    return {
+      repositories: [...repositories]
+        .sort()
+        .map((value) => ({ value, label: value.split('/').slice(-2).join('/') })),
+      refs: [...refs].sort().map((value) => ({ value, label: value || 'default branch' })),
+    };
+  }, [agents, drafts]);
+
   // Group agents by column
   const columns = React.useMemo(() => {
-    const result: Record<string, Agent[]> = {
-      backlog: [],
-      creating: [],
-      running: [],
-      needs_input: [],
-      failed: [],
-      draft_pr: [],
-      checks_failing: [],
-      has_conflict: [],
-      checks_pending: [],
-      awaiting_review: [],
-      approved: [],
-      merged: [],
-    };
+    const result: Record<string, Agent[]> = Object.fromEntries(allColumnKeys.map((key) => [key, []]));
 
-    agents.forEach((agent) => {
-      const prUrl = agent.target?.prUrl;
-      const prStatus = prStatuses.get(agent.id);
-      const column = getColumnForStatus(agent.status, prUrl, prStatus);
+    sortBoardItems(filteredAgents, cardSort).forEach((agent) => {
+      const column = getColumnForAgent(agent);
       if (result[column]) {
         result[column].push(agent);
       }
     });
 
     return result;
-  }, [agents, prStatuses]);
+  }, [filteredAgents, allColumnKeys, getColumnForAgent, cardSort]);
+
+  // Log each agent's status/column to its history and notify about agents that moved into an
+  // opted-in column since the previous poll.
+  // Waits for the first network refresh so the cached board doesn't count as a transition.
+  React.useEffect(() => {
+    if (!lastRefresh) return;
+
+    const observed: ObservedAgentState[] = [];
+    for (const agent of agents) {
+      const prUrl = agent.target?.prUrl;
+      const prStatus = prStatuses.get(agent.id);
+      // PR status not fetched yet: the fallback column would be a false transition
+      if (agent.status === 'FINISHED' && prUrl && !prStatus) continue;
+
+      const column = getColumnForAgent(agent);
+      observed.push({ id: agent.id, status: agent.status, column });
+      const previous = lastColumnsRef.current.get(agent.id);
+      lastColumnsRef.current.set(agent.id, column);
+
+      if (
+        previous &&
+        previous !== column &&
+        notificationSettings.enabled &&
+        notificationSettings.columns.includes(column)
+      ) {
+        showDesktopNotification({
+          title: `${agent.name}: ${columnTitles[column] ?? column}`,
+          body: `${agent.source.repository.split('/').slice(-2).join('/')} • moved from ${columnTitles[previous] ?? previous}`,
+          tag: agent.id,
+          onClick: () => openAgentRef.current(agent),
+        });
+      }
+    }
+
+    recordAgentStates(observed).catch((err) => {
+      console.warn('Failed to record agent history:', err);
+    });
+  }, [agents, prStatuses, lastRefresh, notificationSettings, getColumnForAgent, columnTitles]);
+
+  // Throws on an invalid config so the dialog can show why
+  const handleColumnConfigChange = (config: ColumnConfig) => {
+    saveColumnConfig(config);
+    setColumnConfig(getColumnConfig());
+    // Agents moved by the new rules didn't transition; don't notify about them
+    lastColumnsRef.current.clear();
+  };
+
+  const handleNotificationSettingsChange = (settings: NotificationSettings) => {
+    setNotificationSettings(settings);
+    saveNotificationSettings(settings);
+  };
 
-  // Apply persisted order to the derived columns map (object insertion order drives DnD-kit column order)
+  // Apply persisted order to the derived columns map (object insertion order drives DnD-kit column order).
+  // Backlog holds the drafts so they can be dragged out of it.
+  // Hidden columns are left out entirely, so nothing can be dropped on them.
   const orderedColumns = React.useMemo(() => {
-    const normalized = normalizeColumnOrder(columnOrder, allColumnKeys);
-    const ordered: Record<string, Agent[]> = {};
-    for (const key of normalized) {
-      ordered[key] = columns[key] ?? [];
+    const ordered: Record<string, (Agent | DraftAgent)[]> = {};
+    for (const key of visibleColumnOrder) {
+      ordered[key] = key === 'backlog' ? filteredDrafts : (columns[key] ?? []);
     }
     return ordered;
-  }, [allColumnKeys, columnOrder, columns]);
+  }, [visibleColumnOrder, columns, filteredDrafts]);
+
+  // Grouping by model needs models recorded at launch; without any, that mode isn't offered
+  const swimlaneModes = (Object.keys(SWIMLANE_MODE_LABELS) as SwimlaneMode[]).filter(
+    (mode) => mode !== 'model' || Object.keys(agentModels).length > 0
+  );
+  const swimlaneMode = swimlaneModes.includes(swimlaneSettings.mode) ? swimlaneSettings.mode : 'none';
+
+  // Each lane gets its own Kanban over the same column keys, so drag actions and column reordering work per lane
+  const swimlanes = React.useMemo(
+    () =>
+      swimlaneMode === 'none' ? [] : buildSwimlanes(orderedColumns, swimlaneMode, groupsByAgent, agentModels),
+    [orderedColumns, swimlaneMode, groupsByAgent, agentModels]
+  );
+  const collapsedLanes = swimlaneSettings.collapsed[swimlaneMode] ?? [];
+
+  const toggleLaneCollapsed = (laneKey: string) => {
+    setSwimlaneSettings((prev) => {
+      const current = prev.collapsed[prev.mode] ?? [];
+      const next = current.includes(laneKey) ? current.filter((key) => key !== laneKey) : [...current, laneKey];
+      return { ...prev, collapsed: { ...prev.collapsed, [prev.mode]: next } };
+    });
+  };
+
+  const selectedTarget = selectedAgent
+    ? selectedIsDraft
+      ? (selectedAgent as DraftAgent).target
+      : (selectedAgent as Agent).target
+    : undefined;
+  const selectedGroup = selectedAgent && !selectedIsDraft ? groupsByAgent.get(selectedAgent.id) : undefined;
+  const selectedGroupAgents = selectedGroup
+    ? selectedGroup.agentIds.flatMap((id) => agents.find((agent) => agent.id === id) ?? [])
+    : [];
+  const selectedPrStatus = selectedAgent && !selectedIsDraft ? prStatuses.get(selectedAgent.id) : undefined;
 
   // Handle agent click
   const handleAgentClick = async (agent: Agent | DraftAgent, isDraft: boolean) => {
@@ -596,6 +1404,14 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
     setIsDrawerOpen(true);
     setConversation(null);
     setFollowupText('');
+    setFollowupImages([]);
+
+    // The draft editor offers the model list
+    if (isDraft && models.length === 0) {
+      listModels()
+        .then((data) => setModels(data.models))
+        .catch((err) => console.warn('Failed to load models:', err));
+    }
 
     if (!isDraft) {
       setIsLoadingConversation(true);
@@ -604,27 +1420,42 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
         setConversation(convo);
       } catch (err) {
         console.error('Failed to load conversation:', err);
+        showCardError(agent.id, handleApiError(err, 'Failed to load conversation'));
       } finally {
         setIsLoadingConversation(false);
       }
     }
   };
 
+  React.useEffect(() => {
+    openAgentRef.current = (agent) => handleAgentClick(agent, false);
+  });
+
   // Handle send follow-up
   const handleSendFollowup = async () => {
     if (!selectedAgent || selectedIsDraft || !followupText.trim()) return;
 
     setIsSendingFollowup(true);
     try {
-      await addFollowup(selectedAgent.id, { text: followupText.trim() });
+      await addFollowup(selectedAgent.id, {
+        text: followupText.trim(),
+        ...(followupImages.length > 0 ? { images: toFollowupImages(followupImages) } : {}),
+      });
+      recordSentFollowup(selectedAgent.id);
+      setSentFollowups(getSentFollowups());
       setFollowupText('');
+      setFollowupImages([]);
+      // The agent picks the follow-up up right away; start following it live
+      stickToBottomRef.current = true;
+      setAgents((prev) => prev.map((a) => (a.id === selectedAgent.id ? { ...a, status: 'RUNNING' } : a)));
+      toast.success('Follow-up sent', selectedAgent.name);
       // Reload conversation
       const convo = await getConversation(selectedAgent.id);
       setConversation(convo);
       // Refresh agents list
       await loadAgents();
     } catch (err) {
-      console.error('Failed to send follow-up:', err);
+      reportActionError(selectedAgent.id, err, 'Failed to send follow-up');
     } finally {
       setIsSendingFollowup(false);
     }
@@ -636,59 +1467,245 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
 
     try {
       await stopAgent(selectedAgent.id);
+      toast.success('Agent stopped', selectedAgent.name);
       await loadAgents();
     } catch (err) {
-      console.error('Failed to stop agent:', err);
+      reportActionError(selectedAgent.id, err, 'Failed to stop agent');
+    }
+  };
+
+  // Drop local data kept for a deleted agent
+  const forgetAgent = (id: string) => {
+    deleteAgentHistory(id);
+    removeAgentFromGroups(id);
+    setAgentGroups(getAgentGroups());
+    forgetAgentModel(id);
+    setAgentModels(getAgentModels());
+    forgetSentFollowup(id);
+    setSentFollowups(getSentFollowups());
+  };
+
+  // "Keep this one": delete the other agents in its group
+  const handleKeepGroupAgent = async (keep: Agent) => {
+    const group = groupsByAgent.get(keep.id);
+    if (!group) return;
+
+    const others = group.agentIds.filter((id) => id !== keep.id);
+    const results = await Promise.allSettled(others.map((id) => deleteAgent(id)));
+    let failed = 0;
+    results.forEach((result, index) => {
+      // Already gone on Cursor's side counts as deleted
+      if (result.status === 'fulfilled' || result.reason instanceof NotFoundError) {
+        forgetAgent(others[index]);
+      } else {
+        failed++;
+        showCardError(others[index], handleApiError(result.reason, 'Failed to delete agent'));
+      }
+    });
+
+    if (failed > 0) {
+      toast.error(`Failed to delete ${failed} of ${others.length} agents`, 'See the cards for details');
+    } else {
+      toast.success(`Kept ${keep.name}`, `Deleted ${others.length} other agent${others.length === 1 ? '' : 's'}`);
     }
+    await loadAgents();
+    if (selectedAgent?.id !== keep.id) {
+      handleAgentClick(keep, false);
+    }
+  };
+
+  const handleUngroup = (groupId: string) => {
+    deleteAgentGroup(groupId);
+    setAgentGroups(getAgentGroups());
   };
 
   // Handle delete agent
   const handleDeleteAgent = async () => {
     if (!selectedAgent) return;
 
+    // Drafts are local, so deletion can be undone for a short while
+    if (selectedIsDraft) {
+      const draft = selectedAgent as DraftAgent;
+      deleteDraft(draft.id);
+      loadDrafts();
+      setIsDrawerOpen(false);
+      toast({
+        title: 'Draft deleted',
+        description: draft.name,
+        duration: DRAFT_UNDO_WINDOW,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            restoreDraft(draft);
+            loadDrafts();
+          },
+        },
+      });
+      return;
+    }
+
     try {
-      if (selectedIsDraft) {
-        deleteDraft(selectedAgent.id);
-        loadDrafts();
-      } else {
-        await deleteAgent(selectedAgent.id);
-        await loadAgents();
-      }
+      await deleteAgent(selectedAgent.id);
+      forgetAgent(selectedAgent.id);
+      toast.success('Agent deleted', selectedAgent.name);
+      await loadAgents();
       setIsDrawerOpen(false);
     } catch (err) {
-      console.error('Failed to delete agent:', err);
+      // Already gone on Cursor's side - just drop it from the board
+      if (err instanceof NotFoundError) {
+        forgetAgent(selectedAgent.id);
+        await loadAgents();
+        setIsDrawerOpen(false);
+        return;
+      }
+      reportActionError(selectedAgent.id, err, 'Failed to delete agent');
     }
   };
 
-  // Handle launch draft
-  const handleLaunchDraft = async () => {
+  const handleUpdateDraft = (changes: DraftFields) => {
     if (!selectedAgent || !selectedIsDraft) return;
+    const updated = updateDraft(selectedAgent.id, changes);
+    if (!updated) return;
+    setSelectedAgent(updated);
+    loadDrafts();
+    toast.success('Draft saved', updated.name);
+  };
 
+  const handleRestoreDraftRevision = (revisionIndex: number) => {
+    if (!selectedAgent || !selectedIsDraft) return;
+    const updated = restoreDraftRevision(selectedAgent.id, revisionIndex);
+    if (!updated) return;
+    setSelectedAgent(updated);
+    loadDrafts();
+    toast.success('Draft restored', 'The replaced version is kept in the history');
+  };
+
+  const handleSaveDraftAsTemplate = () => {
+    if (!selectedAgent || !selectedIsDraft) return;
     const draft = selectedAgent as DraftAgent;
+    savePromptTemplate({ name: draft.name, prompt: draft.prompt });
+    toast.success('Template saved', draft.name);
+  };
+
+  // Handle launch draft
+  const launchDraft = async (draft: DraftAgent): Promise<boolean> => {
     setIsCreating(true);
 
     try {
-      await createAgent({
+      const agent = await createAgent({
         repository: draft.repository,
         ref: draft.ref,
         prompt: draft.prompt,
         model: draft.model,
+        target: draft.target,
       });
+      recordAgentModels({ [agent.id]: draft.model ?? AUTO_MODEL });
+      setAgentModels(getAgentModels());
       deleteDraft(draft.id);
       loadDrafts();
+      toast.success('Agent launched', draft.name);
       await loadAgents();
-      setIsDrawerOpen(false);
+      return true;
     } catch (err) {
-      console.error('Failed to launch agent:', err);
+      reportActionError(draft.id, err, 'Failed to launch agent');
+      return false;
     } finally {
       setIsCreating(false);
     }
   };
 
+  const handleLaunchDraft = async () => {
+    if (!selectedAgent || !selectedIsDraft) return;
+    if (await launchDraft(selectedAgent as DraftAgent)) {
+      setIsDrawerOpen(false);
+    }
+  };
+
+  const findBoardItem = (columnKey: string, id: string) => orderedColumns[columnKey]?.find((item) => item.id === id);
+
+  // Whether dropping this card on toColumn would do something (drives the drop-target highlight)
+  const acceptsDrop = (toColumn: string, itemId: string, fromColumn: string) => {
+    const item = findBoardItem(fromColumn, itemId);
+    return !!item && !!getDragAction(columnConfig, fromColumn, toColumn, { item, prStatus: prStatuses.get(itemId) });
+  };
+
+  // Dropping a card on another column runs that transition's action, after confirmation
+  const handleBoardMove = ({ event, activeContainer, overContainer }: KanbanMoveEvent) => {
+    const item = findBoardItem(activeContainer, event.active.id as string);
+    const rect = event.active.rect.current.translated ?? event.active.rect.current.initial;
+    if (!item || !rect) return;
+
+    const action = getDragAction(columnConfig, activeContainer, overContainer, { item, prStatus: prStatuses.get(item.id) });
+    if (!action) return;
+
+    setPendingDragAction({
+      action,
+      item,
+      anchor: { left: rect.left, top: rect.top, width: rect.width, height: rect.height },
+    });
+  };
+
+  const runDragAction = async ({ action, item }: PendingDragAction) => {
+    switch (action.id) {
+      case 'launch':
+        // Reports its own errors
+        await launchDraft(item as DraftAgent);
+        return;
+      case 'stop':
+        try {
+          await stopAgent(item.id);
+          toast.success('Agent stopped', item.name);
+        } catch (err) {
+          reportActionError(item.id, err, 'Failed to stop agent');
+          return;
+        }
+        break;
+      case 'fix-ci':
+        try {
+          await addFollowup(item.id, { text: FIX_CI_FOLLOWUP });
+          recordSentFollowup(item.id);
+          setSentFollowups(getSentFollowups());
+          setAgents((prev) => prev.map((a) => (a.id === item.id ? { ...a, status: 'RUNNING' } : a)));
+          toast.success('Follow-up sent', item.name);
+        } catch (err) {
+          reportActionError(item.id, err, 'Failed to send follow-up');
+          return;
+        }
+        break;
+      case 'merge':
+        try {
+          await mergePullRequest((item as Agent).target?.prUrl ?? '');
+          setPrStatuses((prev) => {
+            const status = prev.get(item.id);
+            return status ? new Map(prev).set(item.id, { ...status, state: 'merged' }) : prev;
+          });
+          toast.success('Pull request merged', item.name);
+        } catch (err) {
+          reportActionError(item.id, err, 'Failed to merge pull request');
+          return;
+        }
+        break;
+    }
+    await loadAgents();
+  };
+
+  const handleConfirmDragAction = async () => {
+    if (!pendingDragAction) return;
+    setIsRunningDragAction(true);
+    try {
+      await runDragAction(pendingDragAction);
+    } finally {
+      setIsRunningDragAction(false);
+      setPendingDragAction(null);
+    }
+  };
+
   // Open create form
   const handleOpenCreate = async () => {
     setIsCreateOpen(true);
+    setCreateError(null);
     const lastRepo = getLastRepository();
+    appliedRepositoryRef.current = lastRepo ?? '';
     
     // Load repositories first to determine if lastRepo is from dropdown or custom
     setIsLoadingRepos(true);
@@ -701,6 +1718,7 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
       setRepositories(reposList);
     } catch (err) {
       console.error('Failed to load repositories:', err);
+      setCreateError(handleApiError(err, 'Failed to load repositories'));
     } finally {
       setIsLoadingRepos(false);
     }
@@ -711,9 +1729,13 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
       name: '',
       repository: isInDropdown ? lastRepo : '',
       customRepo: lastRepo && !isInDropdown ? lastRepo : '',
-      ref: 'main',
+      ref: '',
       prompt: '',
       model: '',
+      target: lastRepo ? getRepositoryTargetDefaults(lastRepo) : {},
+      fanOut: false,
+      fanOutRepositories: [],
+      fanOutModels: [],
     });
 
     try {
@@ -721,15 +1743,48 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
       setModels(modelsData.models);
     } catch (err) {
       console.error('Failed to load models:', err);
+      setCreateError(handleApiError(err, 'Failed to load models'));
     } finally {
       setIsLoadingModels(false);
     }
   };
 
+  // Switching repository loads its remembered target options. A typed URL is only applied on blur,
+  // so partial input neither resets the form nor becomes the last-used repository.
+  const applyRepository = (repository: string) => {
+    if (!repository || repository === appliedRepositoryRef.current) return;
+    appliedRepositoryRef.current = repository;
+    setCreateForm((f) => ({
+      ...f,
+      ref: '',
+      target: { ...getRepositoryTargetDefaults(repository), branchName: f.target.branchName },
+    }));
+    setLastRepository(repository);
+  };
+
+  const handleRepositoryChange = (repository: string) => {
+    setCreateForm((f) => ({ ...f, repository, customRepo: '' }));
+    applyRepository(repository);
+  };
+
+  const handleCustomRepositoryChange = (customRepo: string) => {
+    setCreateForm((f) => ({ ...f, repository: '', customRepo }));
+  };
+
+  const handleTargetChange = (target: AgentTargetOptions) => {
+    setCreateForm((f) => ({ ...f, target }));
+    // In fan-out the options apply to every selected repository, so each remembers them
+    const repositories = createForm.fanOut
+      ? createForm.fanOutRepositories
+      : [createForm.customRepo || createForm.repository].filter(Boolean);
+    repositories.forEach((repository) => setRepositoryTargetDefaults(repository, target));
+  };
+
   // Handle create/save draft
   const handleCreate = async (asDraft: boolean) => {
     const repository = createForm.customRepo || createForm.repository;
     if (!repository || !createForm.prompt.trim()) return;
+    setCreateError(null);
 
     if (asDraft) {
       saveDraft({
@@ -738,28 +1793,118 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
         ref: createForm.ref,
         prompt: createForm.prompt,
         model: createForm.model || undefined,
+        target: createForm.target,
       });
       loadDrafts();
       setIsCreateOpen(false);
+      toast.success('Draft saved');
     } else {
       setIsCreating(true);
       try {
-        await createAgent({
+        const agent = await createAgent({
           repository,
           ref: createForm.ref,
           prompt: createForm.prompt,
           model: createForm.model || undefined,
+          target: createForm.target,
         });
+        recordAgentModels({ [agent.id]: createForm.model || AUTO_MODEL });
+        setAgentModels(getAgentModels());
+        toast.success('Agent launched');
         await loadAgents();
         setIsCreateOpen(false);
       } catch (err) {
         console.error('Failed to create agent:', err);
+        const message = handleApiError(err, 'Failed to create agent');
+        setCreateError(message);
+        toast.error('Failed to create agent', message);
       } finally {
         setIsCreating(false);
       }
     }
   };
 
+  const fanOutCount = createForm.fanOutRepositories.length * createForm.fanOutModels.length;
+
+  // Start fan-out from whatever is already picked in the single-agent fields
+  const handleFanOutChange = (fanOut: boolean) => {
+    setCreateForm((f) => {
+      const repository = f.customRepo || f.repository;
+      return {
+        ...f,
+        fanOut,
+        fanOutRepositories:
+          fanOut && f.fanOutRepositories.length === 0 && repository ? [repository] : f.fanOutRepositories,
+        fanOutModels: fanOut && f.fanOutModels.length === 0 ? [f.model || AUTO_MODEL] : f.fanOutModels,
+      };
+    });
+  };
+
+  // Launch one agent per repository x model and tag them as a group
+  const handleFanOutLaunch = async () => {
+    const { fanOutRepositories, fanOutModels, prompt, target } = createForm;
+    const combinations = fanOutRepositories.flatMap((repository) => fanOutModels.map((model) => ({ repository, model })));
+    if (combinations.length === 0 || combinations.length > MAX_FANOUT_AGENTS || !prompt.trim()) return;
+
+    setCreateError(null);
+    setIsCreating(true);
+
+    // A ref only applies to a single repository; otherwise each starts from its default branch
+    const ref = fanOutRepositories.length === 1 ? createForm.ref : '';
+    const branchName = target.branchName?.trim();
+    const results = await Promise.allSettled(
+      combinations.map(({ repository, model }) =>
+        createAgent({
+          repository,
+          ref,
+          prompt,
+          model: model || undefined,
+          target: {
+            ...target,
+            // Siblings in the same repository can't share a branch
+            branchName:
+              branchName && fanOutModels.length > 1
+                ? `${branchName}-${(model || 'auto').replace(/[^\w.-]+/g, '-')}`
+                : branchName,
+          },
+        })
+      )
+    );
+
+    const launched = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+    const failures = results.flatMap((result) => (result.status === 'rejected' ? [result.reason] : []));
+
+    // allSettled keeps launch order, so each result lines up with its combination
+    const launchedModels = Object.fromEntries(
+      results.flatMap((result, i) => (result.status === 'fulfilled' ? [[result.value.id, combinations[i].model]] : []))
+    );
+    if (launched.length > 0) {
+      recordAgentModels(launchedModels);
+      setAgentModels(getAgentModels());
+    }
+
+    if (launched.length > 1) {
+      createAgentGroup(createForm.name || prompt.slice(0, 50), launched.map((agent) => agent.id));
+      setAgentGroups(getAgentGroups());
+    }
+
+    if (failures.length > 0) {
+      console.error('Failed to create agents:', failures);
+      const message = handleApiError(failures[0], 'Failed to create agent');
+      const summary = `${failures.length} of ${combinations.length} agents failed to launch`;
+      setCreateError(`${summary}: ${message}`);
+      toast.error(summary, message);
+    } else {
+      toast.success(`Launched ${launched.length} agents`);
+      setIsCreateOpen(false);
+    }
+
+    setIsCreating(false);
+    if (launched.length > 0) {
+      await loadAgents();
+    }
+  };
+
   // Render empty state
   if (!apiKeySet) {
     return (
@@ -774,6 +1919,46 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
     );
   }
 
+  // One Kanban over `value`; the whole board, or a single swimlane
+  const renderBoard = (value: Record<string, (Agent | DraftAgent)[]>, className: string, boardClassName: string) => (
+    <Kanban
+      value={value}
+      onValueChange={(next) => {
+        // Only persist column order; item drops are handled by onMove
+        changeColumnLayout((prev) => ({ ...prev, order: mergeVisibleOrder(prev.order, Object.keys(next)) }));
+      }}
+      onMove={handleBoardMove}
+      getItemValue={(item) => item.id}
+      className={className}
+    >
+      <KanbanBoard className={`flex gap-4 ${boardClassName}`}>
+        {visibleColumnOrder.map((columnKey) => (
+          <AgentColumn
+            key={columnKey}
+            columnKey={columnKey}
+            title={columnsById.get(columnKey)?.title ?? columnKey}
+            description={columnsById.get(columnKey)?.description ?? ''}
+            agents={value[columnKey] ?? []}
+            drafts={columnKey === 'backlog' ? (value.backlog as DraftAgent[]) : []}
+            prStatuses={prStatuses}
+            cardErrors={cardErrors}
+            groupsByAgent={groupsByAgent}
+            draggable={hasDragActions(columnConfig, columnKey)}
+            acceptsDrop={(itemId, fromColumn) => acceptsDrop(columnKey, itemId, fromColumn)}
+            collapsed={columnLayout.collapsed.includes(columnKey)}
+            onToggleCollapsed={() => toggleColumnCollapsed(columnKey)}
+            onAgentClick={handleAgentClick}
+            onDismissCardError={dismissCardError}
+            onAddClick={columnKey === 'backlog' ? handleOpenCreate : undefined}
+          />
+        ))}
+      </KanbanBoard>
+      <KanbanOverlay>
+        <div className="rounded-md bg-muted/60 size-full" />
+      </KanbanOverlay>
+    </Kanban>
+  );
+
   return (
     <>
       <div className="h-full flex flex-col">
@@ -787,53 +1972,150 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
                 {isFetchingPrStatus && ' (fetching PR statuses...)'}
               </span>
             )}
+            {githubRateLimit && (
+              <span
+                className={`text-xs tabular-nums ${
+                  githubRateLimit.remaining < githubRateLimit.limit * 0.1 ? 'text-destructive' : 'text-muted-foreground'
+                }`}
+                title={`GitHub ${githubRateLimit.resource} limit resets at ${new Date(githubRateLimit.resetAt).toLocaleTimeString()}`}
+              >
+                <span className="text-muted-foreground/50">•</span> GitHub: {githubRateLimit.remaining}/{githubRateLimit.limit}
+              </span>
+            )}
+            {!githubTokenSet && (
+              <Button variant="primary" mode="link" className="text-xs" onClick={onOpenGithubSettings}>
+                Add GitHub token
+              </Button>
+            )}
+            {githubTokenSet && githubPrStatusError && (
+              <span className="flex items-center gap-1 text-xs text-destructive" title={githubPrStatusError}>
+                <AlertCircle className="size-3" />
+                GitHub PR status query failed
+                <Button variant="primary" mode="link" className="text-xs" onClick={onOpenGithubSettings}>
+                  Check token
+                </Button>
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <BoardViewsMenu
+              views={boardViews}
+              activeViewId={activeViewId}
+              onApply={handleApplyView}
+              onSave={handleSaveView}
+              onDelete={handleDeleteView}
+              onShare={handleShareView}
+              onViewsChange={() => setBoardViews(getBoardViews())}
+            />
+            <ColumnVisibilityMenu
+              columns={columnLayout.order.map((key) => ({ key, title: columnTitles[key] ?? key }))}
+              hidden={columnLayout.hidden}
+              collapsed={columnLayout.collapsed}
+              onToggleHidden={toggleColumnHidden}
+              onToggleCollapsed={toggleColumnCollapsed}
+              onShowAll={() => changeColumnLayout((prev) => ({ ...prev, hidden: [], collapsed: [] }))}
+            />
+            <Button variant="ghost" size="sm" mode="icon" onClick={() => setIsColumnRulesOpen(true)} title="Board columns">
+              <Columns3 className="size-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              mode="icon"
+              onClick={() => setIsNotificationSettingsOpen(true)}
+              title="Desktop notifications"
+            >
+              {notificationSettings.enabled ? <BellRing className="size-4" /> : <Bell className="size-4" />}
+            </Button>
+            <Button variant="outline" size="sm" onClick={loadAgents} disabled={isLoading}>
+              <RefreshCw className={`size-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
           </div>
-          <Button variant="outline" size="sm" onClick={loadAgents} disabled={isLoading}>
-            <RefreshCw className={`size-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-            Refresh
-          </Button>
         </div>
 
-        {error && (
+        {rateLimitedUntil !== null && (
+          <div className="mb-4 p-3 rounded-md bg-yellow-500/10 text-yellow-700 dark:text-yellow-500 text-sm flex items-center gap-2 flex-shrink-0">
+            <Timer className="size-4" />
+            Cursor rate limit reached. Retrying in {Math.max(0, Math.ceil((rateLimitedUntil - now) / 1000))}s
+          </div>
+        )}
+
+        {error && rateLimitedUntil === null && (
           <div className="mb-4 p-3 rounded-md bg-destructive/10 text-destructive text-sm flex items-center gap-2 flex-shrink-0">
             <XCircle className="size-4" />
             {error}
           </div>
         )}
 
+        <BoardFilterBar
+          filters={boardFilters}
+          onChange={setBoardFilters}
+          sort={cardSort}
+          onSortChange={setCardSort}
+          swimlaneMode={swimlaneMode}
+          swimlaneModes={swimlaneModes}
+          onSwimlaneModeChange={(mode) => setSwimlaneSettings((prev) => ({ ...prev, mode }))}
+          repositories={filterOptions.repositories}
+          refs={filterOptions.refs}
+          matchCount={filteredAgents.length + filteredDrafts.length}
+          totalCount={agents.length + drafts.length}
+        />
+
         {/* Kanban Board */}
-        <Kanban
-          value={orderedColumns}
-          onValueChange={(next) => {
-            // Only persist column order; items are read-only (derived from API status)
-            const nextOrder = normalizeColumnOrder(Object.keys(next), allColumnKeys);
-            setColumnOrder(nextOrder);
-          }}
-          getItemValue={(item) => item.id}
-          className="flex-1 min-h-0"
-        >
-          <KanbanBoard className="flex gap-4 overflow-auto h-full pb-4">
-            {columnOrder.map((columnKey) => (
-              <AgentColumn
-                key={columnKey}
-                columnKey={columnKey}
-                agents={columns[columnKey] || []}
-                drafts={columnKey === 'backlog' ? drafts : []}
-                prStatuses={prStatuses}
-                onAgentClick={handleAgentClick}
-                onAddClick={columnKey === 'backlog' ? handleOpenCreate : undefined}
-              />
-            ))}
-          </KanbanBoard>
-          <KanbanOverlay>
-            <div className="rounded-md bg-muted/60 size-full" />
-          </KanbanOverlay>
-        </Kanban>
+        {swimlaneMode === 'none' ? (
+          renderBoard(orderedColumns, 'flex-1 min-h-0', 'overflow-auto h-full pb-4')
+        ) : (
+          <div className="flex-1 min-h-0 overflow-auto pb-4 space-y-3">
+            {swimlanes.map((lane) => {
+              const laneCollapsed = collapsedLanes.includes(lane.key);
+              return (
+                <section key={lane.key} className="w-max min-w-full rounded-md border bg-muted/20">
+                  <button
+                    type="button"
+                    onClick={() => toggleLaneCollapsed(lane.key)}
+                    className="sticky left-0 flex items-center gap-2 px-3 py-2 text-sm font-medium"
+                    title={lane.key || undefined}
+                  >
+                    {laneCollapsed ? <ChevronRight className="size-4" /> : <ChevronDown className="size-4" />}
+                    <span>{lane.title}</span>
+                    <Badge variant="secondary">{lane.count}</Badge>
+                  </button>
+                  {!laneCollapsed && renderBoard(lane.columns, 'h-[26rem] px-3 pb-3', 'h-full')}
+                </section>
+              );
+            })}
+            {swimlanes.length === 0 && (
+              <p className="py-12 text-center text-sm text-muted-foreground">No agents or drafts to show.</p>
+            )}
+          </div>
+        )}
+        <DragActionPopover
+          pending={pendingDragAction}
+          isRunning={isRunningDragAction}
+          onConfirm={handleConfirmDragAction}
+          onCancel={() => setPendingDragAction(null)}
+        />
       </div>
 
+      <ColumnRulesModal
+        open={isColumnRulesOpen}
+        onOpenChange={setIsColumnRulesOpen}
+        config={columnConfig}
+        onConfigChange={handleColumnConfigChange}
+      />
+
+      <NotificationSettingsModal
+        open={isNotificationSettingsOpen}
+        onOpenChange={setIsNotificationSettingsOpen}
+        columns={columnConfig.columns.map((column) => ({ key: column.id, title: column.title }))}
+        settings={notificationSettings}
+        onSettingsChange={handleNotificationSettingsChange}
+      />
+
       {/* Agent Detail Drawer */}
       <Sheet open={isDrawerOpen} onOpenChange={setIsDrawerOpen}>
-        <SheetContent className="sm:max-w-lg flex flex-col">
+        <SheetContent className={`${selectedGroupAgents.length > 1 ? 'sm:max-w-2xl' : 'sm:max-w-lg'} flex flex-col`}>
           <SheetHeader>
             <SheetTitle>{selectedAgent?.name || 'Agent Details'}</SheetTitle>
             <SheetDescription>
@@ -843,6 +2125,15 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
 
           {selectedAgent && (
             <div className="flex-1 flex flex-col gap-4 overflow-hidden px-4">
+              {cardErrors[selectedAgent.id] && (
+                <div className="p-2 rounded-md bg-destructive/10 text-destructive text-sm flex items-center gap-2">
+                  <XCircle className="size-4 shrink-0" />
+                  <span className="flex-1">{cardErrors[selectedAgent.id]}</span>
+                  <Button variant="dim" size="sm" mode="icon" className="h-6 w-6" onClick={() => dismissCardError(selectedAgent.id)}>
+                    <X className="size-3" />
+                  </Button>
+                </div>
+              )}
               {/* Agent Info */}
               <div className="space-y-2">
                 <div className="flex items-center gap-2">
@@ -879,14 +2170,67 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
                     : (selectedAgent as Agent).source.repository}
                   <span className="text-muted-foreground/50">@</span>
                   {selectedIsDraft
-                    ? (selectedAgent as DraftAgent).ref
+                    ? (selectedAgent as DraftAgent).ref || 'default branch'
                     : (selectedAgent as Agent).source.ref}
+                  {selectedTarget?.branchName && (
+                    <>
+                      <ArrowRight className="size-3 mx-0.5" />
+                      {selectedTarget.branchName}
+                    </>
+                  )}
                 </div>
+                {selectedIsDraft && selectedTarget?.autoCreatePr && (
+                  <p className="text-xs text-muted-foreground">
+                    Opens a pull request when finished
+                    {selectedTarget.openAsCursorGithubApp && ' as the Cursor GitHub App'}
+                    {selectedTarget.skipReviewerRequest && ', without requesting your review'}
+                  </p>
+                )}
                 {!selectedIsDraft && (selectedAgent as Agent).summary && (
                   <p className="text-sm text-muted-foreground">{(selectedAgent as Agent).summary}</p>
                 )}
+                {!selectedIsDraft && (
+                  <AgentTimeline agentId={selectedAgent.id} createdAt={selectedAgent.createdAt} columnTitles={columnTitles} />
+                )}
+                {selectedPrStatus && (selectedPrStatus.reviewers.length > 0 || selectedPrStatus.requestedReviewers.length > 0) && (
+                  <div className="flex items-center gap-1.5 flex-wrap text-xs">
+                    <span className="text-muted-foreground">Reviews:</span>
+                    {selectedPrStatus.reviewers.map((reviewer) => (
+                      <Badge
+                        key={reviewer.login}
+                        variant={getReviewBadge(reviewer.state).variant}
+                        appearance="outline"
+                        size="sm"
+                        title={reviewer.state}
+                      >
+                        {getReviewBadge(reviewer.state).icon}
+                        {reviewer.login}
+                      </Badge>
+                    ))}
+                    {selectedPrStatus.requestedReviewers.map((login) => (
+                      <Badge key={login} variant="secondary" appearance="outline" size="sm" title="Review requested">
+                        <Clock className="size-3" />
+                        {login}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
               </div>
 
+              {selectedGroup && selectedGroupAgents.length > 1 && (
+                <AgentGroupComparison
+                  group={selectedGroup}
+                  agents={selectedGroupAgents}
+                  selectedId={selectedAgent.id}
+                  prStatuses={prStatuses}
+                  agentModels={agentModels}
+                  columnTitleFor={(agent) => columnTitles[getColumnForAgent(agent)] ?? ''}
+                  onSelect={(agent) => handleAgentClick(agent, false)}
+                  onKeep={handleKeepGroupAgent}
+                  onUngroup={() => handleUngroup(selectedGroup.id)}
+                />
+              )}
+
               {/* Conversation History */}
               {!selectedIsDraft && (
                 <div className="flex-1 flex flex-col min-h-0 overflow-hidden">
@@ -900,24 +2244,35 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
                       ) : conversation?.messages.length ? (
                         <div className="space-y-3">
                           {conversation.messages.map((msg) => (
-                            <ConversationMessageItem key={msg.id} message={msg} />
+                            <ConversationMessageItem key={msg.id} message={msg} agent={selectedAgent as Agent} />
                           ))}
                         </div>
                       ) : (
                         <p className="text-center text-muted-foreground py-8">No conversation yet</p>
                       )}
+                      {selectedIsWorking && !isLoadingConversation && (
+                        <div className="flex items-center gap-2 pt-3 text-xs text-muted-foreground">
+                          <Loader2 className="size-3.5 animate-spin" />
+                          Working…
+                        </div>
+                      )}
+                      <div ref={conversationEndRef} />
                     </div>
                   </ScrollArea>
                 </div>
               )}
 
-              {/* Draft Prompt */}
+              {/* Draft Editor */}
               {selectedIsDraft && (
-                <div className="space-y-2">
-                  <Label>Prompt</Label>
-                  <div className="border rounded-md p-3 bg-muted/30 text-sm whitespace-pre-wrap">
-                    {(selectedAgent as DraftAgent).prompt}
-                  </div>
+                <div className="flex-1 min-h-0 overflow-y-auto -mx-4 px-4 pb-1">
+                  <DraftEditor
+                    key={`${selectedAgent.id}:${(selectedAgent as DraftAgent).updatedAt ?? ''}`}
+                    draft={selectedAgent as DraftAgent}
+                    models={models}
+                    onSave={handleUpdateDraft}
+                    onRestoreRevision={handleRestoreDraftRevision}
+                    onSaveAsTemplate={handleSaveDraftAsTemplate}
+                  />
                 </div>
               )}
 
@@ -925,14 +2280,13 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
               {!selectedIsDraft && !['RUNNING', 'CREATING'].includes((selectedAgent as Agent).status) && (
                 <div className="space-y-2">
                   <Label>Send Follow-up</Label>
-                  <div className="flex gap-2">
-                    <Textarea
-                      value={followupText}
-                      onChange={(e) => setFollowupText(e.target.value)}
-                      placeholder="Type your follow-up message..."
-                      className="min-h-[80px]"
-                    />
-                  </div>
+                  <FollowupComposer
+                    text={followupText}
+                    onTextChange={setFollowupText}
+                    images={followupImages}
+                    onImagesChange={setFollowupImages}
+                    disabled={isSendingFollowup}
+                  />
                   <Button
                     onClick={handleSendFollowup}
                     disabled={!followupText.trim() || isSendingFollowup}
@@ -985,8 +2339,13 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
           </SheetHeader>
 
           <div className="flex flex-col gap-4 py-4">
+            <Label className="font-normal">
+              <Checkbox checked={createForm.fanOut} onCheckedChange={(checked) => handleFanOutChange(checked === true)} />
+              Fan out across several models or repositories
+            </Label>
+
             <div className="space-y-2">
-              <Label htmlFor="name">Name (optional)</Label>
+              <Label htmlFor="name">{createForm.fanOut ? 'Group name (optional)' : 'Name (optional)'}</Label>
               <Input
                 id="name"
                 value={createForm.name}
@@ -995,52 +2354,77 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
               />
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="repository">Repository</Label>
-              <Select
-                value={createForm.repository}
-                onValueChange={(value) => {
-                  setCreateForm((f) => ({ ...f, repository: value, customRepo: '' }));
-                  setLastRepository(value);
-                }}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder={isLoadingRepos ? 'Loading...' : 'Select a repository'} />
-                </SelectTrigger>
-                <SelectContent>
-                  {repositories.map((repo) => (
-                    <SelectItem key={repo.repository} value={repo.repository}>
-                      {repo.owner}/{repo.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <div className="text-xs text-muted-foreground">Or enter manually:</div>
-              <Input
-                value={createForm.customRepo}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  setCreateForm((f) => ({ ...f, customRepo: value, repository: '' }));
-                  if (value) {
-                    setLastRepository(value);
-                  }
-                }}
-                placeholder="https://github.com/owner/repo"
-              />
-            </div>
+            {!createForm.fanOut && (
+              <div className="space-y-2">
+                <Label htmlFor="repository">Repository</Label>
+                <Select
+                  value={createForm.repository}
+                  onValueChange={handleRepositoryChange}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={isLoadingRepos ? 'Loading...' : 'Select a repository'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {repositories.map((repo) => (
+                      <SelectItem key={repo.repository} value={repo.repository}>
+                        {repo.owner}/{repo.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="text-xs text-muted-foreground">Or enter manually:</div>
+                <Input
+                  value={createForm.customRepo}
+                  onChange={(e) => handleCustomRepositoryChange(e.target.value)}
+                  onBlur={() => applyRepository(createForm.customRepo)}
+                  placeholder="https://github.com/owner/repo"
+                />
+              </div>
+            )}
 
-            <div className="space-y-2">
-              <Label htmlFor="ref">Branch/Ref</Label>
-              <Input
-                id="ref"
-                value={createForm.ref}
-                onChange={(e) => setCreateForm((f) => ({ ...f, ref: e.target.value }))}
-                placeholder="main"
+            {createForm.fanOut && (
+              <FanoutFields
+                repositories={repositories}
+                models={models}
+                selectedRepositories={createForm.fanOutRepositories}
+                selectedModels={createForm.fanOutModels}
+                onRepositoriesChange={(fanOutRepositories) =>
+                  setCreateForm((f) => ({
+                    ...f,
+                    fanOutRepositories,
+                    // The ref picker follows the first repository
+                    ref: fanOutRepositories[0] === f.fanOutRepositories[0] ? f.ref : '',
+                  }))
+                }
+                onModelsChange={(fanOutModels) => setCreateForm((f) => ({ ...f, fanOutModels }))}
               />
-            </div>
+            )}
+
+            {createForm.fanOut && createForm.fanOutRepositories.length > 1 ? (
+              <p className="text-xs text-muted-foreground">Each repository starts from its default branch.</p>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="ref">Branch/Ref</Label>
+                <RefCombobox
+                  id="ref"
+                  repository={
+                    createForm.fanOut ? (createForm.fanOutRepositories[0] ?? '') : createForm.customRepo || createForm.repository
+                  }
+                  value={createForm.ref}
+                  onChange={(ref) => setCreateForm((f) => ({ ...f, ref }))}
+                  autoSelectDefault
+                />
+              </div>
+            )}
 
             <div className="space-y-2">
-              <Label htmlFor="prompt">Prompt</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="prompt">Prompt</Label>
+                <PromptTemplatePicker
+                  prompt={createForm.prompt}
+                  onApply={(prompt) => setCreateForm((f) => ({ ...f, prompt }))}
+                />
+              </div>
               <Textarea
                 id="prompt"
                 value={createForm.prompt}
@@ -1050,49 +2434,78 @@ export default function CloudAgentsKanban({ apiKeySet, onOpenSettings }: CloudAg
               />
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="model">Model (optional)</Label>
-              <Select
-                value={createForm.model || 'auto'}
-                onValueChange={(value) => setCreateForm((f) => ({ ...f, model: value === 'auto' ? '' : value }))}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder={isLoadingModels ? 'Loading...' : 'Auto (recommended)'} />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="auto">Auto (recommended)</SelectItem>
-                  {models.map((model) => (
-                    <SelectItem key={model} value={model}>
-                      {model}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+            {!createForm.fanOut && (
+              <div className="space-y-2">
+                <Label htmlFor="model">Model (optional)</Label>
+                <Select
+                  value={createForm.model || 'auto'}
+                  onValueChange={(value) => setCreateForm((f) => ({ ...f, model: value === 'auto' ? '' : value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={isLoadingModels ? 'Loading...' : 'Auto (recommended)'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Auto (recommended)</SelectItem>
+                    {models.map((model) => (
+                      <SelectItem key={model} value={model}>
+                        {model}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <TargetOptionsFields value={createForm.target} onChange={handleTargetChange} />
           </div>
 
+          {createError && (
+            <div className="mx-4 p-2 rounded-md bg-destructive/10 text-destructive text-sm flex items-center gap-2">
+              <XCircle className="size-4 shrink-0" />
+              {createError}
+            </div>
+          )}
+
           <SheetFooter className="gap-2">
             <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
               Cancel
             </Button>
-            <Button
-              variant="secondary"
-              onClick={() => handleCreate(true)}
-              disabled={!(createForm.repository || createForm.customRepo) || !createForm.prompt.trim()}
-            >
-              Save as Draft
-            </Button>
-            <Button
-              onClick={() => handleCreate(false)}
-              disabled={!(createForm.repository || createForm.customRepo) || !createForm.prompt.trim() || isCreating}
-            >
-              {isCreating ? (
-                <Loader2 className="size-4 mr-2 animate-spin" />
-              ) : (
-                <Play className="size-4 mr-2" />
-              )}
-              Launch Now
-            </Button>
+            {createForm.fanOut ? (
+              <Button
+                onClick={handleFanOutLaunch}
+                disabled={
+                  fanOutCount === 0 || fanOutCount > MAX_FANOUT_AGENTS || !createForm.prompt.trim() || isCreating
+                }
+              >
+                {isCreating ? (
+                  <Loader2 className="size-4 mr-2 animate-spin" />
+                ) : (
+                  <Layers className="size-4 mr-2" />
+                )}
+                Launch {fanOutCount} Agent{fanOutCount === 1 ? '' : 's'}
+              </Button>
+            ) : (
+              <>
+                <Button
+                  variant="secondary"
+                  onClick={() => handleCreate(true)}
+                  disabled={!(createForm.repository || createForm.customRepo) || !createForm.prompt.trim()}
+                >
+                  Save as Draft
+                </Button>
+                <Button
+                  onClick={() => handleCreate(false)}
+                  disabled={!(createForm.repository || createForm.customRepo) || !createForm.prompt.trim() || isCreating}
+                >
+                  {isCreating ? (
+                    <Loader2 className="size-4 mr-2 animate-spin" />
+                  ) : (
+                    <Play className="size-4 mr-2" />
+                  )}
+                  Launch Now
+                </Button>
+              </>
+            )}
           </SheetFooter>
         </SheetContent>
       </Sheet>
@@ -0,0 +1,155 @@
+'use client';
+
+import * as React from 'react';
+import { BookMarked, History, RotateCcw, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RefCombobox } from '@/components/kanban/ref-combobox';
+import { TargetOptionsFields } from '@/components/kanban/target-options-fields';
+import type { DraftAgent, DraftFields } from '@/lib/cursor-api';
+
+interface DraftEditorProps {
+  draft: DraftAgent;
+  models: string[];
+  onSave: (changes: DraftFields) => void;
+  onRestoreRevision: (revisionIndex: number) => void;
+  onSaveAsTemplate: () => void;
+}
+
+function toFields(draft: DraftAgent): DraftFields {
+  return {
+    name: draft.name,
+    repository: draft.repository,
+    ref: draft.ref,
+    prompt: draft.prompt,
+    model: draft.model,
+    target: draft.target,
+  };
+}
+
+function formatRevisionTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+// Editable draft fields for the drawer. Changes are kept locally until saved, so each save is one revision.
+export function DraftEditor({ draft, models, onSave, onRestoreRevision, onSaveAsTemplate }: DraftEditorProps) {
+  const [fields, setFields] = React.useState<DraftFields>(() => toFields(draft));
+  const [showHistory, setShowHistory] = React.useState(false);
+
+  const saved = toFields(draft);
+  const isDirty = JSON.stringify(fields) !== JSON.stringify(saved);
+  const revisions = draft.revisions ?? [];
+
+  const update = (changes: Partial<DraftFields>) => setFields((prev) => ({ ...prev, ...changes }));
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="draft-name">Name</Label>
+        <Input id="draft-name" value={fields.name} onChange={(e) => update({ name: e.target.value })} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="draft-repository">Repository</Label>
+        <Input
+          id="draft-repository"
+          value={fields.repository}
+          onChange={(e) => update({ repository: e.target.value, ref: '' })}
+          placeholder="https://github.com/owner/repo"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="draft-ref">Branch/Ref</Label>
+        <RefCombobox id="draft-ref" repository={fields.repository} value={fields.ref} onChange={(ref) => update({ ref })} />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="draft-prompt">Prompt</Label>
+          <Button variant="ghost" size="sm" onClick={onSaveAsTemplate}>
+            <BookMarked className="size-4 mr-1" />
+            Save as Template
+          </Button>
+        </div>
+        <Textarea
+          id="draft-prompt"
+          value={fields.prompt}
+          onChange={(e) => update({ prompt: e.target.value })}
+          className="min-h-[120px]"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="draft-model">Model</Label>
+        <Select
+          value={fields.model || 'auto'}
+          onValueChange={(value) => update({ model: value === 'auto' ? undefined : value })}
+        >
+          <SelectTrigger id="draft-model">
+            <SelectValue placeholder="Auto (recommended)" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Auto (recommended)</SelectItem>
+            {/* Keep a model that's no longer listed selectable */}
+            {[...new Set([...(fields.model ? [fields.model] : []), ...models])].map((model) => (
+              <SelectItem key={model} value={model}>
+                {model}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <TargetOptionsFields value={fields.target ?? {}} onChange={(target) => update({ target })} />
+
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={() => onSave(fields)} disabled={!isDirty || !fields.repository.trim() || !fields.prompt.trim()}>
+          <Save className="size-4 mr-1" />
+          Save Changes
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setFields(saved)} disabled={!isDirty}>
+          Discard
+        </Button>
+        {revisions.length > 0 && (
+          <Button size="sm" variant="ghost" className="ml-auto" onClick={() => setShowHistory((v) => !v)}>
+            <History className="size-4 mr-1" />
+            History ({revisions.length})
+          </Button>
+        )}
+      </div>
+
+      {showHistory && revisions.length > 0 && (
+        <div className="rounded-md border divide-y">
+          {/* Newest first */}
+          {revisions
+            .map((revision, index) => ({ revision, index }))
+            .reverse()
+            .map(({ revision, index }) => (
+              <div key={`${revision.savedAt}-${index}`} className="flex items-start gap-2 p-2 text-xs">
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <div className="text-muted-foreground tabular-nums">
+                    {formatRevisionTime(revision.savedAt)} · {revision.name}
+                  </div>
+                  <p className="line-clamp-2 whitespace-pre-wrap">{revision.prompt}</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onRestoreRevision(index)}
+                  disabled={isDirty}
+                  title={isDirty ? 'Save or discard your changes first' : 'Restore this version'}
+                >
+                  <RotateCcw className="size-3.5 mr-1" />
+                  Restore
+                </Button>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import type { Agent, DraftAgent } from '@/lib/cursor-api';
+import { type DragAction, FIX_CI_FOLLOWUP } from '@/lib/drag-actions';
+import { parsePrUrl } from '@/lib/github-api';
+
+// Where the dragged card was dropped, in viewport coordinates
+export interface DropAnchor {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface PendingDragAction {
+  action: DragAction;
+  item: Agent | DraftAgent;
+  anchor: DropAnchor;
+}
+
+interface DragActionPopoverProps {
+  pending: PendingDragAction | null;
+  isRunning: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function getDetails({ action, item }: PendingDragAction): Array<[string, string]> {
+  if (action.id === 'launch') {
+    const draft = item as DraftAgent;
+    return [
+      ['Repository', draft.repository.split('/').slice(-2).join('/')],
+      ['Ref', draft.ref || 'default branch'],
+      ['Model', draft.model || 'Auto'],
+    ];
+  }
+
+  const agent = item as Agent;
+  const details: Array<[string, string]> = [['Repository', agent.source.repository.split('/').slice(-2).join('/')]];
+  const pr = agent.target?.prUrl ? parsePrUrl(agent.target.prUrl) : null;
+  if (pr) details.push(['Pull request', `#${pr.number}`]);
+  if (action.id === 'fix-ci') details.push(['Follow-up', FIX_CI_FOLLOWUP]);
+  return details;
+}
+
+// Confirmation shown where a card was dropped, before its drag action runs
+export function DragActionPopover({ pending, isRunning, onConfirm, onCancel }: DragActionPopoverProps) {
+  return (
+    <Popover
+      open={!!pending}
+      onOpenChange={(open) => {
+        if (!open && !isRunning) onCancel();
+      }}
+    >
+      <PopoverAnchor asChild>
+        <div className="pointer-events-none fixed" style={pending?.anchor} />
+      </PopoverAnchor>
+      {pending && (
+        <PopoverContent side="right" align="start" className="w-80 space-y-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">{pending.action.title}</p>
+            <p className="text-xs text-muted-foreground line-clamp-1">{pending.item.name}</p>
+          </div>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            {getDetails(pending).map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="line-clamp-3">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" onClick={onCancel} disabled={isRunning}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              variant={pending.action.destructive ? 'destructive' : 'primary'}
+              onClick={onConfirm}
+              disabled={isRunning}
+              autoFocus
+            >
+              {isRunning && <Loader2 className="size-4 mr-1 animate-spin" />}
+              {pending.action.confirmLabel}
+            </Button>
+          </div>
+        </PopoverContent>
+      )}
+    </Popover>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import * as React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { Repository } from '@/lib/cursor-api';
+
+// Cursor allows 30 requests/minute; a bigger batch would stall the rest of the board
+export const MAX_FANOUT_AGENTS = 10;
+
+// '' stands for "Auto" (let Cursor pick the model)
+export const AUTO_MODEL = '';
+
+interface FanoutFieldsProps {
+  repositories: Repository[];
+  models: string[];
+  selectedRepositories: string[];
+  selectedModels: string[];
+  onRepositoriesChange: (repositories: string[]) => void;
+  onModelsChange: (models: string[]) => void;
+}
+
+function toggle(list: string[], value: string, checked: boolean): string[] {
+  return checked ? [...list, value] : list.filter((item) => item !== value);
+}
+
+// Multi-select of repositories x models for launching one agent per combination
+export function FanoutFields({
+  repositories,
+  models,
+  selectedRepositories,
+  selectedModels,
+  onRepositoriesChange,
+  onModelsChange,
+}: FanoutFieldsProps) {
+  const [repoQuery, setRepoQuery] = React.useState('');
+  const [customRepo, setCustomRepo] = React.useState('');
+
+  const visibleRepositories = React.useMemo(() => {
+    const needle = repoQuery.trim().toLowerCase();
+    const listed = repositories.map((repo) => ({ value: repo.repository, label: `${repo.owner}/${repo.name}` }));
+    // Manually added URLs aren't in the list but still need a checkbox
+    const custom = selectedRepositories
+      .filter((value) => !repositories.some((repo) => repo.repository === value))
+      .map((value) => ({ value, label: value }));
+    const all = [...custom, ...listed];
+    return needle ? all.filter((repo) => repo.label.toLowerCase().includes(needle)) : all;
+  }, [repositories, selectedRepositories, repoQuery]);
+
+  const addCustomRepo = () => {
+    const value = customRepo.trim();
+    if (!value) return;
+    if (!selectedRepositories.includes(value)) {
+      onRepositoriesChange([...selectedRepositories, value]);
+    }
+    setCustomRepo('');
+  };
+
+  const combinations = selectedRepositories.length * selectedModels.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Repositories ({selectedRepositories.length})</Label>
+        <Input value={repoQuery} onChange={(e) => setRepoQuery(e.target.value)} placeholder="Filter repositories..." />
+        <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1.5">
+          {visibleRepositories.map((repo) => (
+            <Label key={repo.value} className="font-normal">
+              <Checkbox
+                checked={selectedRepositories.includes(repo.value)}
+                onCheckedChange={(checked) =>
+                  onRepositoriesChange(toggle(selectedRepositories, repo.value, checked === true))
+                }
+              />
+              <span className="truncate">{repo.label}</span>
+            </Label>
+          ))}
+          {visibleRepositories.length === 0 && (
+            <p className="py-2 text-center text-xs text-muted-foreground">No repositories</p>
+          )}
+        </div>
+        <Input
+          value={customRepo}
+          onChange={(e) => setCustomRepo(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addCustomRepo();
+            }
+          }}
+          onBlur={addCustomRepo}
+          placeholder="Add https://github.com/owner/repo and press Enter"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Models ({selectedModels.length})</Label>
+        <div className="max-h-40 overflow-y-auto rounded-md border p-2 grid grid-cols-2 gap-1.5">
+          {[AUTO_MODEL, ...models].map((model) => (
+            <Label key={model || 'auto'} className="font-normal">
+              <Checkbox
+                checked={selectedModels.includes(model)}
+                onCheckedChange={(checked) => onModelsChange(toggle(selectedModels, model, checked === true))}
+              />
+              <span className="truncate">{model || 'Auto'}</span>
+            </Label>
+          ))}
+        </div>
+      </div>
+
+      <p className={`text-xs ${combinations > MAX_FANOUT_AGENTS ? 'text-destructive' : 'text-muted-foreground'}`}>
+        {combinations === 0
+          ? 'Pick at least one repository and one model.'
+          : `${combinations} agent${combinations === 1 ? '' : 's'} will be launched (one per repository and model)` +
+            (combinations > MAX_FANOUT_AGENTS ? ` - the limit is ${MAX_FANOUT_AGENTS}.` : '.')}
+      </p>
+    </div>
+  );
+}
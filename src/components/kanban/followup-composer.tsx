@@ -0,0 +1,180 @@
+'use client';
+
+import * as React from 'react';
+import { ImagePlus, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/lib/toast';
+import {
+  type ImageAttachment,
+  ACCEPTED_IMAGE_TYPES,
+  MAX_IMAGES_PER_FOLLOWUP,
+  imagePreviewUrl,
+  prepareImageAttachment,
+} from '@/lib/image-attachments';
+
+interface FollowupComposerProps {
+  text: string;
+  onTextChange: (text: string) => void;
+  images: ImageAttachment[];
+  onImagesChange: (images: ImageAttachment[]) => void;
+  disabled?: boolean;
+}
+
+// Follow-up textarea that also takes images via paste, drag & drop or the file picker
+export function FollowupComposer({ text, onTextChange, images, onImagesChange, disabled }: FollowupComposerProps) {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = React.useState(false);
+  const [processingCount, setProcessingCount] = React.useState(0);
+  const processingRef = React.useRef(0);
+
+  // Latest images, so concurrent adds don't overwrite each other
+  const imagesRef = React.useRef(images);
+  React.useEffect(() => {
+    imagesRef.current = images;
+  }, [images]);
+
+  const addFiles = async (files: File[]) => {
+    const imageFiles = files.filter((file) => file.type.startsWith('image/'));
+    if (imageFiles.length === 0) return;
+
+    const slots = MAX_IMAGES_PER_FOLLOWUP - imagesRef.current.length - processingRef.current;
+    if (slots <= 0) {
+      toast.error('Too many images', `A follow-up can include up to ${MAX_IMAGES_PER_FOLLOWUP} images.`);
+      return;
+    }
+    if (imageFiles.length > slots) {
+      toast.error('Too many images', `Only the first ${slots} will be attached (max ${MAX_IMAGES_PER_FOLLOWUP}).`);
+    }
+
+    const accepted = imageFiles.slice(0, slots);
+    processingRef.current += accepted.length;
+    setProcessingCount(processingRef.current);
+    await Promise.all(
+      accepted.map(async (file) => {
+        try {
+          const image = await prepareImageAttachment(file);
+          imagesRef.current = [...imagesRef.current, image];
+          onImagesChange(imagesRef.current);
+        } catch (err) {
+          toast.error('Could not attach image', err instanceof Error ? err.message : undefined);
+        } finally {
+          processingRef.current -= 1;
+          setProcessingCount(processingRef.current);
+        }
+      })
+    );
+  };
+
+  const removeImage = (id: string) => {
+    onImagesChange(images.filter((image) => image.id !== id));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.some((file) => file.type.startsWith('image/'))) {
+      // Text copied along with the image (browser or doc selections) still pastes normally
+      if (!e.clipboardData.getData('text/plain')) e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (disabled || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leaving into a child element
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (disabled || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const canAddMore = images.length + processingCount < MAX_IMAGES_PER_FOLLOWUP;
+
+  return (
+    <div
+      className={`space-y-2 rounded-md ${isDragging ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      <Textarea
+        value={text}
+        onChange={(e) => onTextChange(e.target.value)}
+        onPaste={handlePaste}
+        placeholder="Type your follow-up message... (paste or drop images to attach)"
+        className="min-h-[80px]"
+        disabled={disabled}
+      />
+
+      {(images.length > 0 || processingCount > 0) && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((image) => (
+            <div key={image.id} className="group relative size-16 overflow-hidden rounded-md border bg-muted">
+              <img
+                src={imagePreviewUrl(image)}
+                alt={image.name}
+                title={`${image.name} • ${image.dimension.width}×${image.dimension.height}`}
+                className="size-full object-cover"
+              />
+              <button
+                type="button"
+                onClick={() => removeImage(image.id)}
+                disabled={disabled}
+                title="Remove image"
+                className="absolute top-0.5 right-0.5 rounded-full bg-background/90 p-0.5 opacity-0 transition-opacity group-hover:opacity-100 focus:opacity-100"
+              >
+                <X className="size-3" />
+              </button>
+            </div>
+          ))}
+          {Array.from({ length: processingCount }, (_, index) => (
+            <div key={`processing-${index}`} className="flex size-16 items-center justify-center rounded-md border bg-muted">
+              <Loader2 className="size-4 animate-spin text-muted-foreground" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || !canAddMore}
+        >
+          <ImagePlus className="size-4 mr-1" />
+          Attach images
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          {images.length}/{MAX_IMAGES_PER_FOLLOWUP}
+        </span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES.join(',')}
+          multiple
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import * as React from 'react';
+import Markdown, { type Components, type Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import type { ElementContent } from 'hast';
+import { Check, Copy, GitPullRequest } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { parsePrUrl, parseRepositoryUrl } from '@/lib/github-api';
+import remarkFilePaths from '@/lib/remark-file-paths';
+
+interface MarkdownMessageProps {
+  text: string;
+  // Used to link file paths to the agent's branch on GitHub
+  repository?: string;
+  branch?: string;
+  // Inverted colors for the user's own (primary-colored) bubble
+  inverted?: boolean;
+}
+
+// Code inside a fenced block renders differently from inline code
+const InsidePreContext = React.createContext(false);
+
+function hastText(nodes: ElementContent[]): string {
+  return nodes.map((node) => (node.type === 'text' ? node.value : 'children' in node ? hastText(node.children) : '')).join('');
+}
+
+function CopyButton({ text }: { text: string }) {
+  const [copied, setCopied] = React.useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // clipboard unavailable (insecure context)
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      title="Copy code"
+      className="absolute top-1.5 right-1.5 rounded-sm p-1 text-muted-foreground opacity-0 transition-opacity hover:text-foreground group-hover/code:opacity-100 focus:opacity-100"
+    >
+      {copied ? <Check className="size-3.5" /> : <Copy className="size-3.5" />}
+    </button>
+  );
+}
+
+const components: Components = {
+  h1: ({ children }) => <h3 className="mt-3 mb-1.5 text-base font-semibold first:mt-0">{children}</h3>,
+  h2: ({ children }) => <h4 className="mt-3 mb-1.5 text-sm font-semibold first:mt-0">{children}</h4>,
+  h3: ({ children }) => <h5 className="mt-2 mb-1 text-sm font-semibold first:mt-0">{children}</h5>,
+  h4: ({ children }) => <h6 className="mt-2 mb-1 text-sm font-medium first:mt-0">{children}</h6>,
+  p: ({ children }) => <p className="my-1.5 first:mt-0 last:mb-0 break-words">{children}</p>,
+  ul: ({ children }) => <ul className="my-1.5 list-disc space-y-0.5 pl-5">{children}</ul>,
+  ol: ({ children }) => <ol className="my-1.5 list-decimal space-y-0.5 pl-5">{children}</ol>,
+  blockquote: ({ children }) => <blockquote className="my-1.5 border-l-2 pl-3 opacity-80">{children}</blockquote>,
+  hr: () => <hr className="my-3 border-current/20" />,
+  table: ({ children }) => (
+    <div className="my-1.5 overflow-x-auto">
+      <table className="w-full border-collapse text-xs">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-current/20 px-2 py-1 text-left font-semibold">{children}</th>,
+  td: ({ children }) => <td className="border border-current/20 px-2 py-1">{children}</td>,
+  a: ({ href, children }) => {
+    const pr = href ? parsePrUrl(href) : null;
+    // Bare PR URLs read better as owner/repo#123
+    const isBareUrl = typeof children === 'string' && children === href;
+    return (
+      <a href={href} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:no-underline">
+        {pr && isBareUrl ? (
+          <span className="inline-flex items-center gap-0.5">
+            <GitPullRequest className="size-3" />
+            {pr.owner}/{pr.repo}#{pr.number}
+          </span>
+        ) : (
+          children
+        )}
+      </a>
+    );
+  },
+  pre: ({ node, children }) => (
+    <div className="group/code relative my-2">
+      <pre className="overflow-x-auto rounded-md bg-background/80 p-3 text-xs leading-relaxed text-foreground">
+        <InsidePreContext.Provider value={true}>{children}</InsidePreContext.Provider>
+      </pre>
+      <CopyButton text={hastText(node?.children ?? [])} />
+    </div>
+  ),
+  code: function Code({ className, children }) {
+    const insidePre = React.useContext(InsidePreContext);
+    if (insidePre) {
+      return <code className={cn('font-mono', className)}>{children}</code>;
+    }
+    return <code className="rounded-sm bg-current/10 px-1 py-0.5 font-mono text-[0.85em]">{children}</code>;
+  },
+};
+
+// Assistant/user message body. react-markdown never renders raw HTML, so the output is safe.
+export function MarkdownMessage({ text, repository, branch, inverted }: MarkdownMessageProps) {
+  const remarkPlugins = React.useMemo<Options['remarkPlugins']>(() => {
+    const repo = repository ? parseRepositoryUrl(repository) : null;
+    const fileUrl = (path: string, line?: number) => {
+      if (!repo || !branch || path.startsWith('../')) return null;
+      const cleanPath = path.replace(/^\.?\//, '');
+      return `https://github.com/${repo.owner}/${repo.repo}/blob/${branch.split('/').map(encodeURIComponent).join('/')}/${cleanPath}${line ? `#L${line}` : ''}`;
+    };
+    return [remarkGfm, [remarkFilePaths, { fileUrl }]];
+  }, [repository, branch]);
+
+  return (
+    <div className={cn('markdown-message text-sm', inverted && '[&_pre]:bg-black/20 [&_pre]:text-inherit')}>
+      <Markdown remarkPlugins={remarkPlugins} rehypePlugins={[[rehypeHighlight, { detect: true }]]} components={components}>
+        {text}
+      </Markdown>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import * as React from 'react';
+import { ArrowLeft, BookMarked, Download, Save, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { toast } from '@/lib/toast';
+import { downloadJson } from '@/lib/utils';
+import {
+  type PromptTemplate,
+  deletePromptTemplate,
+  exportPromptTemplates,
+  extractTemplateVariables,
+  getPromptTemplates,
+  importPromptTemplates,
+  renderTemplate,
+  savePromptTemplate,
+} from '@/lib/prompt-templates';
+
+interface PromptTemplatePickerProps {
+  // Current prompt, offered for "save as template"
+  prompt: string;
+  onApply: (prompt: string) => void;
+}
+
+type View = { kind: 'list' } | { kind: 'fill'; template: PromptTemplate } | { kind: 'save' };
+
+// Template menu next to the create sheet's prompt field
+export function PromptTemplatePicker({ prompt, onApply }: PromptTemplatePickerProps) {
+  const [open, setOpen] = React.useState(false);
+  const [templates, setTemplates] = React.useState<PromptTemplate[]>([]);
+  const [view, setView] = React.useState<View>({ kind: 'list' });
+  const [values, setValues] = React.useState<Record<string, string>>({});
+  const [templateName, setTemplateName] = React.useState('');
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      // Templates may have been saved from a draft since the last time
+      setTemplates(getPromptTemplates());
+      setView({ kind: 'list' });
+    }
+  };
+
+  const apply = (text: string) => {
+    onApply(text);
+    setOpen(false);
+  };
+
+  const handleSelect = (template: PromptTemplate) => {
+    if (extractTemplateVariables(template.prompt).length === 0) {
+      apply(template.prompt);
+      return;
+    }
+    setValues({});
+    setView({ kind: 'fill', template });
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    deletePromptTemplate(template.id);
+    setTemplates(getPromptTemplates());
+  };
+
+  const handleSave = () => {
+    if (!templateName.trim() || !prompt.trim()) return;
+    savePromptTemplate({ name: templateName.trim(), prompt });
+    setTemplates(getPromptTemplates());
+    setTemplateName('');
+    setView({ kind: 'list' });
+    toast.success('Template saved', templateName.trim());
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = importPromptTemplates(await file.text());
+      setTemplates(getPromptTemplates());
+      toast.success(`Imported ${count} template${count === 1 ? '' : 's'}`);
+    } catch (err) {
+      toast.error('Could not import templates', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="sm">
+          <BookMarked className="size-4 mr-1" />
+          Templates
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        {view.kind === 'list' && (
+          <>
+            <div className="max-h-64 overflow-y-auto p-1">
+              {templates.length === 0 ? (
+                <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+                  No templates yet. Use {'{{name}}'} placeholders for the parts that change.
+                </p>
+              ) : (
+                templates.map((template) => (
+                  <div key={template.id} className="group flex items-start gap-1 rounded-sm hover:bg-accent">
+                    <button
+                      type="button"
+                      onClick={() => handleSelect(template)}
+                      className="flex-1 min-w-0 px-2 py-1.5 text-left"
+                    >
+                      <div className="text-sm font-medium truncate">{template.name}</div>
+                      <div className="text-xs text-muted-foreground line-clamp-2">{template.prompt}</div>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(template)}
+                      title="Delete template"
+                      className="p-1.5 text-muted-foreground opacity-0 hover:text-destructive group-hover:opacity-100 focus:opacity-100"
+                    >
+                      <Trash2 className="size-3.5" />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+            <div className="flex items-center gap-1 border-t p-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={!prompt.trim()}
+                onClick={() => setView({ kind: 'save' })}
+              >
+                <Save className="size-3.5 mr-1" />
+                Save prompt
+              </Button>
+              <div className="ml-auto flex items-center">
+                <Button type="button" variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="size-3.5 mr-1" />
+                  Import
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={templates.length === 0}
+                  onClick={() => downloadJson('prompt-templates.json', exportPromptTemplates())}
+                >
+                  <Download className="size-3.5 mr-1" />
+                  Export
+                </Button>
+              </div>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+          </>
+        )}
+
+        {view.kind === 'fill' && (
+          <form
+            className="space-y-3 p-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              apply(renderTemplate(view.template.prompt, values));
+            }}
+          >
+            <div className="flex items-center gap-1">
+              <Button type="button" variant="ghost" size="sm" mode="icon" onClick={() => setView({ kind: 'list' })}>
+                <ArrowLeft className="size-4" />
+              </Button>
+              <span className="text-sm font-medium truncate">{view.template.name}</span>
+            </div>
+            {extractTemplateVariables(view.template.prompt).map((name, index) => (
+              <div key={name} className="space-y-1">
+                <Label htmlFor={`template-var-${name}`}>{name}</Label>
+                <Input
+                  id={`template-var-${name}`}
+                  autoFocus={index === 0}
+                  value={values[name] ?? ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground line-clamp-4 whitespace-pre-wrap">
+              {renderTemplate(view.template.prompt, values)}
+            </p>
+            <Button type="submit" size="sm" className="w-full">
+              Use template
+            </Button>
+          </form>
+        )}
+
+        {view.kind === 'save' && (
+          <form
+            className="space-y-3 p-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="template-name">Template name</Label>
+              <Input
+                id="template-name"
+                autoFocus
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="Fix failing test"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground line-clamp-4 whitespace-pre-wrap">{prompt}</p>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setView({ kind: 'list' })}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" className="flex-1" disabled={!templateName.trim()}>
+                Save template
+              </Button>
+            </div>
+          </form>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,250 @@
+'use client';
+
+import * as React from 'react';
+import { AlertCircle, Check, ChevronsUpDown, GitBranch, GitCommitHorizontal, Loader2, Tag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  type RefCommit,
+  type RepositoryRef,
+  type RepositoryRefs,
+  fetchRefCommit,
+  fetchRepositoryRefs,
+  parseRepositoryUrl,
+} from '@/lib/github-api';
+
+interface RefComboboxProps {
+  id?: string;
+  repository: string;
+  // Empty means "the repository's default branch" until the refs have loaded
+  value: string;
+  onChange: (ref: string) => void;
+  // Fill an empty value with the default branch once it's known (create form only; an existing
+  // draft keeps '' so opening it doesn't count as an edit)
+  autoSelectDefault?: boolean;
+}
+
+// Wait for typing to settle before hitting GitHub (custom repository URLs, hand-typed refs)
+const LOOKUP_DEBOUNCE = 400;
+// Keeps the list snappy for repos with hundreds of branches; search narrows it down
+const MAX_VISIBLE_REFS = 100;
+
+const relativeTimeFormat = new Intl.RelativeTimeFormat('en', { numeric: 'auto' });
+
+function formatRelativeTime(iso: string): string {
+  const seconds = Math.round((new Date(iso).getTime() - Date.now()) / 1000);
+  const units: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+    ['year', 365 * 24 * 3600],
+    ['month', 30 * 24 * 3600],
+    ['day', 24 * 3600],
+    ['hour', 3600],
+    ['minute', 60],
+  ];
+  for (const [unit, size] of units) {
+    if (Math.abs(seconds) >= size) return relativeTimeFormat.format(Math.round(seconds / size), unit);
+  }
+  return 'just now';
+}
+
+function RefIcon({ type }: { type: RepositoryRef['type'] }) {
+  return type === 'tag' ? <Tag className="size-3.5 shrink-0" /> : <GitBranch className="size-3.5 shrink-0" />;
+}
+
+// Branch/tag picker for the create form. Lists the repository's refs from GitHub but accepts
+// anything typed (e.g. a commit SHA), since private repos need a GitHub token to be listed.
+export function RefCombobox({ id, repository, value, onChange, autoSelectDefault = false }: RefComboboxProps) {
+  const [open, setOpen] = React.useState(false);
+  const [query, setQuery] = React.useState('');
+  const [refs, setRefs] = React.useState<RepositoryRefs | null>(null);
+  const [isLoadingRefs, setIsLoadingRefs] = React.useState(false);
+  const [refsError, setRefsError] = React.useState<string | null>(null);
+  const [commit, setCommit] = React.useState<RefCommit | null | undefined>(undefined);
+
+  const isGithubRepo = parseRepositoryUrl(repository) !== null;
+
+  // Latest onChange/value for the async default-branch pick
+  const onChangeRef = React.useRef(onChange);
+  const valueRef = React.useRef(value);
+  const autoSelectDefaultRef = React.useRef(autoSelectDefault);
+  React.useEffect(() => {
+    onChangeRef.current = onChange;
+    valueRef.current = value;
+    autoSelectDefaultRef.current = autoSelectDefault;
+  });
+
+  React.useEffect(() => {
+    setRefs(null);
+    setRefsError(null);
+    if (!isGithubRepo) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsLoadingRefs(true);
+      try {
+        const result = await fetchRepositoryRefs(repository);
+        if (cancelled) return;
+        setRefs(result);
+        if (autoSelectDefaultRef.current && !valueRef.current) onChangeRef.current(result.defaultBranch);
+      } catch (err) {
+        if (cancelled) return;
+        console.warn('Failed to load branches:', err);
+        setRefsError('Could not load branches from GitHub (private repositories need a GitHub token)');
+      } finally {
+        if (!cancelled) setIsLoadingRefs(false);
+      }
+    }, LOOKUP_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      setIsLoadingRefs(false);
+    };
+  }, [repository, isGithubRepo]);
+
+  // Latest commit of the chosen ref
+  React.useEffect(() => {
+    setCommit(undefined);
+    if (!isGithubRepo || !value) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await fetchRefCommit(repository, value);
+        if (!cancelled) setCommit(result);
+      } catch (err) {
+        console.warn('Failed to load commit:', err);
+      }
+    }, LOOKUP_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [repository, value, isGithubRepo]);
+
+  const filtered = React.useMemo(() => {
+    const all = refs?.refs ?? [];
+    const needle = query.trim().toLowerCase();
+    return (needle ? all.filter((ref) => ref.name.toLowerCase().includes(needle)) : all).slice(0, MAX_VISIBLE_REFS);
+  }, [refs, query]);
+
+  const trimmedQuery = query.trim();
+  const hasExactMatch = filtered.some((ref) => ref.name === trimmedQuery);
+  const selectedType = refs?.refs.find((ref) => ref.name === value)?.type ?? 'branch';
+
+  const select = (ref: string) => {
+    onChange(ref);
+    setOpen(false);
+    setQuery('');
+  };
+
+  const renderGroup = (type: RepositoryRef['type'], label: string) => {
+    const items = filtered.filter((ref) => ref.type === type);
+    if (items.length === 0) return null;
+    return (
+      <div className="py-1">
+        <div className="px-2 py-1 text-xs font-medium text-muted-foreground">{label}</div>
+        {items.map((ref) => (
+          <button
+            key={`${ref.type}:${ref.name}`}
+            type="button"
+            onClick={() => select(ref.name)}
+            className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground"
+          >
+            <RefIcon type={ref.type} />
+            <span className="truncate">{ref.name}</span>
+            {ref.name === refs?.defaultBranch && <span className="text-xs text-muted-foreground">default</span>}
+            {ref.name === value && <Check className="ml-auto size-3.5 shrink-0" />}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button id={id} type="button" variant="outline" className="w-full justify-between font-normal">
+            <span className="flex items-center gap-2 truncate">
+              <RefIcon type={selectedType} />
+              {value || <span className="text-muted-foreground">Default branch</span>}
+            </span>
+            {isLoadingRefs ? (
+              <Loader2 className="size-4 shrink-0 animate-spin text-muted-foreground" />
+            ) : (
+              <ChevronsUpDown className="size-4 shrink-0 text-muted-foreground" />
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-(--radix-popover-trigger-width) p-0">
+          <div className="border-b p-2">
+            <Input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && trimmedQuery) {
+                  e.preventDefault();
+                  select(trimmedQuery);
+                }
+              }}
+              placeholder="Search or type a branch, tag or SHA..."
+            />
+          </div>
+          <div className="max-h-64 overflow-y-auto p-1">
+            {trimmedQuery && !hasExactMatch && (
+              <button
+                type="button"
+                onClick={() => select(trimmedQuery)}
+                className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground"
+              >
+                <GitCommitHorizontal className="size-3.5 shrink-0" />
+                Use "{trimmedQuery}"
+              </button>
+            )}
+            {renderGroup('branch', 'Branches')}
+            {renderGroup('tag', 'Tags')}
+            {isLoadingRefs && (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 className="size-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {!isLoadingRefs && refs && filtered.length === 0 && !trimmedQuery && (
+              <p className="px-2 py-4 text-center text-sm text-muted-foreground">No branches found</p>
+            )}
+            {!isLoadingRefs && !refs && !trimmedQuery && (
+              <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+                {refsError ?? (repository ? 'Type a branch, tag or commit SHA' : 'Select a repository first')}
+              </p>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {commit ? (
+        <a
+          href={commit.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+          title={commit.date ? new Date(commit.date).toLocaleString() : undefined}
+        >
+          <GitCommitHorizontal className="size-3.5 shrink-0" />
+          <code className="font-mono">{commit.sha.slice(0, 7)}</code>
+          <span className="truncate">{commit.message}</span>
+          <span className="shrink-0">
+            {commit.author && `· ${commit.author} `}
+            {commit.date && `· ${formatRelativeTime(commit.date)}`}
+          </span>
+        </a>
+      ) : commit === null && refs ? (
+        <div className="flex items-center gap-1.5 text-xs text-destructive">
+          <AlertCircle className="size-3.5 shrink-0" />
+          {value} doesn't exist in this repository
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { AgentTargetOptions } from '@/lib/cursor-api';
+
+interface TargetOptionsFieldsProps {
+  value: AgentTargetOptions;
+  onChange: (value: AgentTargetOptions) => void;
+}
+
+// Branch / pull request options for a new agent (AgentTarget)
+export function TargetOptionsFields({ value, onChange }: TargetOptionsFieldsProps) {
+  const prOptionsDisabled = !value.autoCreatePr;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="branchName">Target branch (optional)</Label>
+        <Input
+          id="branchName"
+          value={value.branchName ?? ''}
+          onChange={(e) => onChange({ ...value, branchName: e.target.value })}
+          placeholder="Generated by Cursor"
+        />
+      </div>
+
+      <Label className="font-normal">
+        <Checkbox
+          checked={value.autoCreatePr === true}
+          onCheckedChange={(checked) => onChange({ ...value, autoCreatePr: checked === true })}
+        />
+        Open a pull request when the agent finishes
+      </Label>
+
+      <div className="space-y-3 pl-6">
+        <Label className={`font-normal ${prOptionsDisabled ? 'opacity-50' : ''}`}>
+          <Checkbox
+            checked={value.openAsCursorGithubApp === true}
+            onCheckedChange={(checked) => onChange({ ...value, openAsCursorGithubApp: checked === true })}
+            disabled={prOptionsDisabled}
+          />
+          Open the PR as the Cursor GitHub App
+        </Label>
+        <Label className={`font-normal ${prOptionsDisabled ? 'opacity-50' : ''}`}>
+          <Checkbox
+            checked={value.skipReviewerRequest === true}
+            onCheckedChange={(checked) => onChange({ ...value, skipReviewerRequest: checked === true })}
+            disabled={prOptionsDisabled}
+          />
+          Don't request a review from me
+        </Label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  type NotificationSettings,
+  isNotificationSupported,
+  requestNotificationPermission,
+} from '@/lib/notifications';
+import { Bell, BellOff, XCircle } from 'lucide-react';
+
+interface NotificationSettingsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: Array<{ key: string; title: string }>;
+  settings: NotificationSettings;
+  onSettingsChange: (settings: NotificationSettings) => void;
+}
+
+export function NotificationSettingsModal({
+  open,
+  onOpenChange,
+  columns,
+  settings,
+  onSettingsChange,
+}: NotificationSettingsModalProps) {
+  const [error, setError] = React.useState<string | null>(null);
+  const supported = isNotificationSupported();
+
+  const handleToggleEnabled = async () => {
+    setError(null);
+    if (settings.enabled) {
+      onSettingsChange({ ...settings, enabled: false });
+      return;
+    }
+
+    const permission = await requestNotificationPermission();
+    if (permission !== 'granted') {
+      setError('Notifications are blocked for this site. Allow them in your browser settings and try again.');
+      return;
+    }
+    onSettingsChange({ ...settings, enabled: true });
+  };
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    const next = checked ? [...settings.columns, key] : settings.columns.filter((c) => c !== key);
+    onSettingsChange({ ...settings, columns: next });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bell className="size-5" />
+            Desktop Notifications
+          </DialogTitle>
+          <DialogDescription>
+            Get a browser notification when an agent moves into one of the selected columns. Clicking the
+            notification opens the agent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {!supported && (
+            <div className="flex items-center gap-2 text-destructive text-sm">
+              <XCircle className="size-4" />
+              This browser doesn't support desktop notifications.
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 text-destructive text-sm">
+              <XCircle className="size-4 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {columns.map((column) => (
+              <Label key={column.key} className={`font-normal ${settings.enabled ? '' : 'opacity-50'}`}>
+                <Checkbox
+                  checked={settings.columns.includes(column.key)}
+                  onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  disabled={!settings.enabled}
+                />
+                {column.title}
+              </Label>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant={settings.enabled ? 'outline' : 'primary'} onClick={handleToggleEnabled} disabled={!supported}>
+            {settings.enabled ? (
+              <>
+                <BellOff className="size-4 mr-2" />
+                Turn Off
+              </>
+            ) : (
+              <>
+                <Bell className="size-4 mr-2" />
+                Turn On
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Toast,
+  ToastAction,
+  ToastClose,
+  ToastDescription,
+  ToastProvider,
+  ToastTitle,
+  ToastViewport,
+} from '@/components/ui/toast';
+import { dismissToast, getToasts, subscribeToasts } from '@/lib/toast';
+
+const DEFAULT_TOAST_DURATION = 5000;
+
+export function Toaster() {
+  const toasts = React.useSyncExternalStore(subscribeToasts, getToasts);
+
+  return (
+    <ToastProvider swipeDirection="right">
+      {toasts.map((t) => (
+        <Toast
+          key={t.id}
+          open={t.open}
+          variant={t.variant}
+          duration={t.duration ?? DEFAULT_TOAST_DURATION}
+          onOpenChange={(open) => {
+            if (!open) dismissToast(t.id);
+          }}
+        >
+          <div className="grid gap-1">
+            <ToastTitle>{t.title}</ToastTitle>
+            {t.description && <ToastDescription>{t.description}</ToastDescription>}
+          </div>
+          {t.action && (
+            <ToastAction altText={t.action.label} onClick={t.action.onClick}>
+              {t.action.label}
+            </ToastAction>
+          )}
+          <ToastClose />
+        </Toast>
+      ))}
+      <ToastViewport />
+    </ToastProvider>
+  );
+}
@@ -289,9 +289,11 @@ export interface KanbanColumnProps {
   className?: string;
   children: React.ReactNode;
   disabled?: boolean;
+  // Whether an item dragged in from another column may be dropped here; sets data-drop-target while dragging
+  accepts?: (itemId: string, fromColumn: string) => boolean;
 }
 
-function KanbanColumn({ value, className, children, disabled }: KanbanColumnProps) {
+function KanbanColumn({ value, className, children, disabled, accepts }: KanbanColumnProps) {
   const {
     setNodeRef,
     transform,
@@ -304,9 +306,17 @@ function KanbanColumn({ value, className, children, disabled }: KanbanColumnProp
     disabled,
   });
 
-  const { activeId, isColumn } = React.useContext(KanbanContext);
+  const { activeId, isColumn, findContainer } = React.useContext(KanbanContext);
   const isColumnDragging = activeId ? isColumn(activeId) : false;
 
+  const fromColumn = activeId && !isColumnDragging ? findContainer(activeId) : undefined;
+  const dropTarget =
+    accepts && fromColumn && fromColumn !== value
+      ? accepts(activeId as string, fromColumn)
+        ? 'accept'
+        : 'reject'
+      : undefined;
+
   const style = {
     transition,
     transform: CSS.Translate.toString(transform),
@@ -319,6 +329,7 @@ function KanbanColumn({ value, className, children, disabled }: KanbanColumnProp
         data-value={value}
         data-dragging={isSortableDragging}
         data-disabled={disabled}
+        data-drop-target={dropTarget}
         ref={setNodeRef}
         style={style}
         className={cn(
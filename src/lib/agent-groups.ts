@@ -0,0 +1,81 @@
+// Local grouping of sibling agents (same prompt fanned out across models/repositories),
+// so the board can show them together. Cursor has no notion of groups.
+const AGENT_GROUPS_STORAGE_KEY = 'cursor_agent_groups';
+// Model picked for each launched agent ('' = Auto). The Cursor API doesn't report it.
+const AGENT_MODELS_STORAGE_KEY = 'cursor_agent_models';
+
+export interface AgentGroup {
+  id: string;
+  name: string;
+  agentIds: string[];
+  createdAt: string;
+}
+
+export function getAgentGroups(): AgentGroup[] {
+  try {
+    const data = localStorage.getItem(AGENT_GROUPS_STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveAgentGroups(groups: AgentGroup[]): void {
+  localStorage.setItem(AGENT_GROUPS_STORAGE_KEY, JSON.stringify(groups));
+}
+
+export function createAgentGroup(name: string, agentIds: string[]): AgentGroup {
+  const group: AgentGroup = {
+    id: `group_${Date.now()}`,
+    name,
+    agentIds,
+    createdAt: new Date().toISOString(),
+  };
+  saveAgentGroups([...getAgentGroups(), group]);
+  return group;
+}
+
+// Forget a deleted agent; groups left with fewer than two agents are dropped
+export function removeAgentFromGroups(agentId: string): void {
+  const groups = getAgentGroups()
+    .map((group) => ({ ...group, agentIds: group.agentIds.filter((id) => id !== agentId) }))
+    .filter((group) => group.agentIds.length > 1);
+  saveAgentGroups(groups);
+}
+
+export function deleteAgentGroup(id: string): void {
+  saveAgentGroups(getAgentGroups().filter((group) => group.id !== id));
+}
+
+export function indexGroupsByAgent(groups: AgentGroup[]): Map<string, AgentGroup> {
+  const byAgent = new Map<string, AgentGroup>();
+  for (const group of groups) {
+    for (const id of group.agentIds) byAgent.set(id, group);
+  }
+  return byAgent;
+}
+
+export function getAgentModels(): Record<string, string> {
+  try {
+    const data = localStorage.getItem(AGENT_MODELS_STORAGE_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveAgentModels(models: Record<string, string>): void {
+  localStorage.setItem(AGENT_MODELS_STORAGE_KEY, JSON.stringify(models));
+}
+
+// Record the model each agent was launched with, keyed by the id the launch returned
+export function recordAgentModels(models: Record<string, string>): void {
+  saveAgentModels({ ...getAgentModels(), ...models });
+}
+
+export function forgetAgentModel(agentId: string): void {
+  const models = getAgentModels();
+  if (!(agentId in models)) return;
+  delete models[agentId];
+  saveAgentModels(models);
+}
@@ -0,0 +1,87 @@
+import type { AgentStatus } from '@/lib/cursor-api';
+import { idbDelete, idbGetAll, idbSet } from '@/lib/idb';
+
+// Per-agent log of observed status / board column changes, persisted in IndexedDB.
+// Timestamps are when a poll first saw the new state, so they're accurate to the poll interval.
+export interface AgentTransition {
+  status: AgentStatus;
+  column: string;
+  at: string;
+}
+
+export interface ObservedAgentState {
+  id: string;
+  status: AgentStatus;
+  column: string;
+}
+
+// Plenty for a timeline; keeps a long-lived agent bouncing between CI states from growing forever
+const MAX_TRANSITIONS_PER_AGENT = 50;
+const EMPTY_HISTORY: AgentTransition[] = [];
+
+const history = new Map<string, AgentTransition[]>();
+const listeners = new Set<() => void>();
+let hydration: Promise<void> | null = null;
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeAgentHistory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Synchronous snapshot (stable reference until the agent's history changes)
+export function getAgentHistory(id: string): AgentTransition[] {
+  return history.get(id) ?? EMPTY_HISTORY;
+}
+
+export function hydrateAgentHistory(): Promise<void> {
+  if (!hydration) {
+    hydration = idbGetAll<AgentTransition[]>('agent-history')
+      .then((entries) => {
+        for (const { key, value } of entries) {
+          if (!history.has(key)) history.set(key, value);
+        }
+        notify();
+      })
+      .catch(() => {
+        // IndexedDB unavailable - history only lives for this session
+      });
+  }
+  return hydration;
+}
+
+// Append an entry for every agent whose status or column differs from its last logged one
+export async function recordAgentStates(states: ObservedAgentState[]): Promise<void> {
+  await hydrateAgentHistory();
+
+  const at = new Date().toISOString();
+  let changed = false;
+
+  for (const { id, status, column } of states) {
+    const entries = history.get(id) ?? EMPTY_HISTORY;
+    const last = entries[entries.length - 1];
+    if (last && last.status === status && last.column === column) continue;
+
+    const next = [...entries, { status, column, at }].slice(-MAX_TRANSITIONS_PER_AGENT);
+    history.set(id, next);
+    changed = true;
+    idbSet('agent-history', id, next).catch(() => {
+      // ignore persistence failures
+    });
+  }
+
+  if (changed) notify();
+}
+
+export function deleteAgentHistory(id: string): void {
+  if (!history.delete(id)) return;
+  notify();
+  idbDelete('agent-history', id).catch(() => {
+    // nothing persisted
+  });
+}
@@ -0,0 +1,105 @@
+// Typed errors thrown by the Cursor API client, so the UI can react to the kind of failure
+// (re-authenticate, wait out a rate limit, ...) instead of parsing message strings.
+
+export class ApiError extends Error {
+  // HTTP status, or null when the request never got a response
+  readonly status: number | null;
+  // Machine-readable code from the error body, when Cursor provides one
+  readonly code: string | null;
+
+  constructor(message: string, status: number | null = null, code: string | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// 401/403, or no API key configured
+export class AuthError extends ApiError {
+  constructor(message = 'Your Cursor API key is missing or invalid', status: number | null = 401, code: string | null = null) {
+    super(message, status, code);
+    this.name = 'AuthError';
+  }
+}
+
+// 429 after retries were exhausted
+export class RateLimitError extends ApiError {
+  // Epoch ms after which it's reasonable to try again
+  readonly retryAt: number;
+
+  constructor(message: string, retryAfterMs: number, code: string | null = null) {
+    super(message, 429, code);
+    this.name = 'RateLimitError';
+    this.retryAt = Date.now() + retryAfterMs;
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'Not found', code: string | null = null) {
+    super(message, 404, code);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 400/422: the request itself was rejected (bad repository, unknown model, ...)
+export class ValidationError extends ApiError {
+  constructor(message: string, status = 400, code: string | null = null) {
+    super(message, status, code);
+    this.name = 'ValidationError';
+  }
+}
+
+// fetch() itself failed: offline, DNS, CORS, proxy down
+export class NetworkError extends ApiError {
+  constructor(message = 'Network error - check your connection') {
+    super(message, null);
+    this.name = 'NetworkError';
+  }
+}
+
+// 5xx or anything else unexpected from Cursor
+export class UpstreamError extends ApiError {
+  constructor(message: string, status: number, code: string | null = null) {
+    super(message, status, code);
+    this.name = 'UpstreamError';
+  }
+}
+
+// Cursor error bodies come as `{ error: "..." }`, `{ error: { message, code } }` or `{ message, code }`
+function parseErrorBody(bodyText: string): { message: string | null; code: string | null } {
+  try {
+    const body = JSON.parse(bodyText);
+    const source = typeof body?.error === 'object' && body.error !== null ? body.error : body;
+    const message =
+      typeof body?.error === 'string' ? body.error : typeof source?.message === 'string' ? source.message : null;
+    const code = typeof source?.code === 'string' ? source.code : null;
+    return { message, code };
+  } catch {
+    return { message: bodyText.trim() || null, code: null };
+  }
+}
+
+const DEFAULT_RATE_LIMIT_WAIT = 60 * 1000;
+
+export function createApiError(status: number, bodyText: string, retryAfterMs: number | null = null): ApiError {
+  const { message, code } = parseErrorBody(bodyText);
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message ?? undefined, status, code);
+  }
+  if (status === 429) {
+    return new RateLimitError(message ?? 'Too many requests to Cursor', retryAfterMs ?? DEFAULT_RATE_LIMIT_WAIT, code);
+  }
+  if (status === 404) {
+    return new NotFoundError(message ?? undefined, code);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message ?? 'The request was rejected', status, code);
+  }
+  return new UpstreamError(message ?? `Cursor API error (${status})`, status, code);
+}
+
+export function getErrorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error && err.message ? err.message : fallback;
+}
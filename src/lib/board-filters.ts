@@ -0,0 +1,142 @@
+import type { Agent, AgentStatus, DraftAgent } from '@/lib/cursor-api';
+
+// Board filter state. Empty fields don't filter. Kept in the URL so a filtered board can be bookmarked.
+export interface BoardFilters {
+  query: string;
+  repositories: string[];
+  // '' is a draft's "default branch"
+  refs: string[];
+  statuses: AgentStatus[];
+  // Local calendar days (YYYY-MM-DD), inclusive
+  createdFrom: string;
+  createdTo: string;
+}
+
+export const EMPTY_BOARD_FILTERS: BoardFilters = {
+  query: '',
+  repositories: [],
+  refs: [],
+  statuses: [],
+  createdFrom: '',
+  createdTo: '',
+};
+
+export const FILTERABLE_STATUSES: AgentStatus[] = ['DRAFT', 'CREATING', 'RUNNING', 'FINISHED', 'ERROR'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// URL parameter names
+const PARAMS = {
+  query: 'q',
+  repositories: 'repo',
+  refs: 'ref',
+  statuses: 'status',
+  createdFrom: 'from',
+  createdTo: 'to',
+} as const;
+
+export function hasActiveFilters(filters: BoardFilters): boolean {
+  return (
+    filters.query.trim() !== '' ||
+    filters.repositories.length > 0 ||
+    filters.refs.length > 0 ||
+    filters.statuses.length > 0 ||
+    filters.createdFrom !== '' ||
+    filters.createdTo !== ''
+  );
+}
+
+// Normalized view of the fields filters look at
+function describe(item: Agent | DraftAgent, isDraft: boolean) {
+  if (isDraft) {
+    const draft = item as DraftAgent;
+    return {
+      status: 'DRAFT' as AgentStatus,
+      repository: draft.repository,
+      ref: draft.ref,
+      text: [draft.name, draft.prompt],
+    };
+  }
+  const agent = item as Agent;
+  return {
+    status: agent.status,
+    repository: agent.source.repository,
+    ref: agent.source.ref,
+    text: [agent.name, agent.summary ?? ''],
+  };
+}
+
+export function matchesBoardFilters(item: Agent | DraftAgent, isDraft: boolean, filters: BoardFilters): boolean {
+  const { status, repository, ref, text } = describe(item, isDraft);
+
+  const needle = filters.query.trim().toLowerCase();
+  if (needle && !text.some((value) => value.toLowerCase().includes(needle))) return false;
+  if (filters.repositories.length > 0 && !filters.repositories.includes(repository)) return false;
+  if (filters.refs.length > 0 && !filters.refs.includes(ref)) return false;
+  if (filters.statuses.length > 0 && !filters.statuses.includes(status)) return false;
+
+  const createdAt = new Date(item.createdAt).getTime();
+  if (filters.createdFrom && createdAt < new Date(`${filters.createdFrom}T00:00:00`).getTime()) return false;
+  if (filters.createdTo && createdAt > new Date(`${filters.createdTo}T23:59:59.999`).getTime()) return false;
+
+  return true;
+}
+
+// Replaces the filter parameters in `params`, leaving any others alone
+export function writeFiltersToSearchParams(filters: BoardFilters, params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  Object.values(PARAMS).forEach((name) => next.delete(name));
+
+  if (filters.query.trim()) next.set(PARAMS.query, filters.query.trim());
+  filters.repositories.forEach((repository) => next.append(PARAMS.repositories, repository));
+  filters.refs.forEach((ref) => next.append(PARAMS.refs, ref));
+  filters.statuses.forEach((status) => next.append(PARAMS.statuses, status));
+  if (filters.createdFrom) next.set(PARAMS.createdFrom, filters.createdFrom);
+  if (filters.createdTo) next.set(PARAMS.createdTo, filters.createdTo);
+  return next;
+}
+
+export function readFiltersFromSearchParams(params: URLSearchParams): BoardFilters {
+  const date = (value: string | null) => (value && DATE_PATTERN.test(value) ? value : '');
+  return {
+    query: params.get(PARAMS.query) ?? '',
+    repositories: params.getAll(PARAMS.repositories),
+    refs: params.getAll(PARAMS.refs),
+    statuses: params
+      .getAll(PARAMS.statuses)
+      .filter((status): status is AgentStatus => (FILTERABLE_STATUSES as string[]).includes(status)),
+    createdFrom: date(params.get(PARAMS.createdFrom)),
+    createdTo: date(params.get(PARAMS.createdTo)),
+  };
+}
+
+// Card order within each column. 'default' keeps the order agents and drafts are loaded in.
+export type CardSort = 'default' | 'newest' | 'oldest' | 'name';
+
+export const CARD_SORT_LABELS: Record<CardSort, string> = {
+  default: 'Default order',
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  name: 'Name',
+};
+
+const SORT_PARAM = 'sort';
+
+export function sortBoardItems<T extends { name: string; createdAt: string }>(items: T[], sort: CardSort): T[] {
+  if (sort === 'newest') return [...items].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  if (sort === 'oldest') return [...items].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  if (sort === 'name') return [...items].sort((a, b) => a.name.localeCompare(b.name));
+  return items;
+}
+
+export function readSortFromSearchParams(params: URLSearchParams): CardSort {
+  const sort = params.get(SORT_PARAM);
+  return sort && sort in CARD_SORT_LABELS ? (sort as CardSort) : 'default';
+}
+
+export function writeSortToSearchParams(sort: CardSort, params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  if (sort === 'default') next.delete(SORT_PARAM);
+  else next.set(SORT_PARAM, sort);
+  return next;
+}
@@ -0,0 +1,157 @@
+import {
+  type BoardFilters,
+  type CardSort,
+  CARD_SORT_LABELS,
+  EMPTY_BOARD_FILTERS,
+  readFiltersFromSearchParams,
+  writeFiltersToSearchParams,
+} from '@/lib/board-filters';
+
+// Named board presets (filters + column layout + card sort), kept in localStorage
+const BOARD_VIEWS_STORAGE_KEY = 'cursor_board_views';
+
+// URL parameter carrying a shared view
+export const SHARED_VIEW_PARAM = 'view';
+
+// Column order plus which columns are hidden or collapsed to a strip
+export interface ColumnLayout {
+  order: string[];
+  hidden: string[];
+  collapsed: string[];
+}
+
+export interface BoardView {
+  id: string;
+  name: string;
+  filters: BoardFilters;
+  layout: ColumnLayout;
+  sort: CardSort;
+  createdAt: string;
+}
+
+export type BoardViewFields = Pick<BoardView, 'name' | 'filters' | 'layout' | 'sort'>;
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((x) => typeof x === 'string') : [];
+}
+
+export function parseColumnLayout(value: unknown): ColumnLayout {
+  // Older versions stored just the order
+  if (Array.isArray(value)) return { order: toStringArray(value), hidden: [], collapsed: [] };
+  const { order, hidden, collapsed } = (value ?? {}) as Record<string, unknown>;
+  return { order: toStringArray(order), hidden: toStringArray(hidden), collapsed: toStringArray(collapsed) };
+}
+
+// Filters go through the URL format so stored views get the same validation as links
+function parseFilters(value: unknown): BoardFilters {
+  if (!value || typeof value !== 'object') return EMPTY_BOARD_FILTERS;
+  const filters = { ...EMPTY_BOARD_FILTERS, ...(value as Partial<BoardFilters>) };
+  try {
+    return readFiltersFromSearchParams(writeFiltersToSearchParams(filters, new URLSearchParams()));
+  } catch {
+    return EMPTY_BOARD_FILTERS;
+  }
+}
+
+function parseViewFields(value: unknown): BoardViewFields | null {
+  if (!value || typeof value !== 'object') return null;
+  const { name, filters, layout, sort } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) return null;
+  return {
+    name: name.trim(),
+    filters: parseFilters(filters),
+    layout: parseColumnLayout(layout),
+    sort: typeof sort === 'string' && sort in CARD_SORT_LABELS ? (sort as CardSort) : 'default',
+  };
+}
+
+// Stored entries get the same validation as imports; ones that don't parse are dropped
+export function getBoardViews(): BoardView[] {
+  try {
+    const data = localStorage.getItem(BOARD_VIEWS_STORAGE_KEY);
+    const parsed: unknown = data ? JSON.parse(data) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((value, index) => {
+      const fields = parseViewFields(value);
+      if (!fields) return [];
+      const { id, createdAt } = value as Record<string, unknown>;
+      return [
+        {
+          ...fields,
+          id: typeof id === 'string' && id ? id : `view_${index}`,
+          createdAt: typeof createdAt === 'string' ? createdAt : new Date(0).toISOString(),
+        },
+      ];
+    });
+  } catch {
+    return [];
+  }
+}
+
+function saveBoardViews(views: BoardView[]): void {
+  localStorage.setItem(BOARD_VIEWS_STORAGE_KEY, JSON.stringify(views));
+}
+
+// Saving under an existing name replaces that view
+export function saveBoardView(fields: BoardViewFields): BoardView {
+  const view: BoardView = { ...fields, id: `view_${Date.now()}`, createdAt: new Date().toISOString() };
+  saveBoardViews([...getBoardViews().filter((v) => v.name !== fields.name), view]);
+  return view;
+}
+
+export function deleteBoardView(id: string): void {
+  saveBoardViews(getBoardViews().filter((view) => view.id !== id));
+}
+
+export function exportBoardViews(): string {
+  return JSON.stringify({ version: 1, views: getBoardViews() }, null, 2);
+}
+
+// Accepts an export file (or a bare array of views). Views with a name that already exists replace it.
+export function importBoardViews(json: string): number {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { views?: unknown })?.views;
+  if (!Array.isArray(list)) {
+    throw new Error('No views found in the file');
+  }
+
+  const imported = list.flatMap((value) => parseViewFields(value) ?? []);
+  const names = new Set(imported.map((view) => view.name));
+  const kept = getBoardViews().filter((view) => !names.has(view.name));
+  saveBoardViews([
+    ...kept,
+    ...imported.map((fields, index) => ({ ...fields, id: `view_${Date.now()}_${index}`, createdAt: new Date().toISOString() })),
+  ]);
+  return imported.length;
+}
+
+// base64url so the link survives chat apps that mangle '+' and '/'
+export function buildShareUrl(fields: BoardViewFields): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(fields));
+  const encoded = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  const url = new URL(window.location.href);
+  url.search = new URLSearchParams({ [SHARED_VIEW_PARAM]: encoded }).toString();
+  url.hash = '';
+  return url.toString();
+}
+
+export function readSharedView(params: URLSearchParams): BoardViewFields | null {
+  const encoded = params.get(SHARED_VIEW_PARAM);
+  if (!encoded) return null;
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const json = new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+    return parseViewFields(JSON.parse(json));
+  } catch {
+    return null;
+  }
+}
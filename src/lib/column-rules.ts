@@ -0,0 +1,212 @@
+import type { Agent } from '@/lib/cursor-api';
+import type { PrStatus } from '@/lib/github-api';
+
+// Board columns as data: each column lists the conditions that put an agent in it. Columns are tried
+// in order and the first match wins, so the list order is the priority ladder (not the display order).
+const COLUMN_CONFIG_STORAGE_KEY = 'cursor_column_rules';
+
+// Drafts are local and always live here; it isn't part of the editable config
+export const BACKLOG_COLUMN: ColumnDefinition = {
+  id: 'backlog',
+  title: 'Backlog',
+  description: 'Drafts ready to launch',
+  match: [],
+};
+
+// What a condition can look at. Booleans are compared as 'true' / 'false'.
+export type RuleField =
+  | 'status'
+  | 'hasPr'
+  | 'prState'
+  | 'prDraft'
+  | 'hasConflict'
+  | 'checksStatus'
+  | 'reviewDecision'
+  | 'hasApproval'
+  | 'followupSent';
+
+export interface RuleCondition {
+  field: RuleField;
+  // Matches when the agent's value is one of these
+  values: string[];
+}
+
+export interface ColumnDefinition {
+  id: string;
+  title: string;
+  description: string;
+  // Any group matches; every condition in a group must hold. Empty never matches.
+  match: RuleCondition[][];
+}
+
+export interface ColumnConfig {
+  columns: ColumnDefinition[];
+  // Where agents matching no column go
+  fallback: string;
+}
+
+export const RULE_FIELDS: Record<RuleField, { label: string; options: string[] }> = {
+  status: { label: 'Agent status', options: ['CREATING', 'RUNNING', 'FINISHED', 'ERROR', 'EXPIRED'] },
+  hasPr: { label: 'Has PR', options: ['true', 'false'] },
+  // unknown: the agent has a PR but its status hasn't been fetched (yet, or no GitHub token)
+  prState: { label: 'PR state', options: ['none', 'unknown', 'open', 'closed', 'merged'] },
+  prDraft: { label: 'PR is draft', options: ['true', 'false'] },
+  hasConflict: { label: 'Has conflict', options: ['true', 'false'] },
+  checksStatus: { label: 'Checks', options: ['none', 'pending', 'success', 'failure', 'unknown'] },
+  reviewDecision: { label: 'Review decision', options: ['none', 'APPROVED', 'CHANGES_REQUESTED', 'REVIEW_REQUIRED'] },
+  hasApproval: { label: 'Has approval', options: ['true', 'false'] },
+  followupSent: { label: 'Follow-up sent', options: ['true', 'false'] },
+};
+
+export type AgentFacts = Record<RuleField, string>;
+
+const is = (field: RuleField, ...values: string[]): RuleCondition => ({ field, values });
+
+const finished = (...conditions: RuleCondition[]): RuleCondition[][] => [[is('status', 'FINISHED'), ...conditions]];
+
+const defineColumn = (id: string, title: string, description: string, match: RuleCondition[][]): ColumnDefinition => ({
+  id,
+  title,
+  description,
+  match,
+});
+
+// The board's original fixed columns
+export const DEFAULT_COLUMN_CONFIG: ColumnConfig = {
+  columns: [
+    defineColumn('creating', 'Starting', 'Agents being initialized', [[is('status', 'CREATING')]]),
+    defineColumn('running', 'In Progress', 'Agents currently working', [[is('status', 'RUNNING')]]),
+    // Expired agents are filtered at the API layer and should not appear here
+    defineColumn('failed', 'Failed', 'Agents with errors', [[is('status', 'ERROR', 'EXPIRED')]]),
+    defineColumn('needs_input', 'Needs Input', 'Waiting for follow-up or no PR', finished(is('hasPr', 'false'))),
+    defineColumn('merged', 'Merged/Closed', 'Completed PRs', finished(is('prState', 'merged', 'closed'))),
+    defineColumn('draft_pr', 'Draft PR', 'PRs marked as draft', finished(is('prDraft', 'true'))),
+    defineColumn('has_conflict', 'Has Conflict', 'PRs with merge conflicts', finished(is('hasConflict', 'true'))),
+    defineColumn('checks_failing', 'Checks Failing', 'PRs with failing CI', finished(is('checksStatus', 'failure'))),
+    defineColumn(
+      'changes_requested',
+      'Changes Requested',
+      'Reviewers asked for changes',
+      finished(is('reviewDecision', 'CHANGES_REQUESTED'))
+    ),
+    defineColumn('checks_pending', 'Checks Running', 'CI checks in progress', finished(is('checksStatus', 'pending'))),
+    defineColumn('approved', 'Approved', 'Ready to merge', finished(is('hasApproval', 'true'))),
+    // Also where PRs wait until their status has been fetched
+    defineColumn('awaiting_review', 'Awaiting Review', 'Needs approval', finished()),
+  ],
+  fallback: 'needs_input',
+};
+
+// Left-to-right order of the original board. The ladder above is matching priority only;
+// columns not listed here (custom ones) are shown after these, in config order.
+export const DEFAULT_COLUMN_DISPLAY_ORDER = [
+  BACKLOG_COLUMN.id,
+  'creating',
+  'running',
+  'needs_input',
+  'failed',
+  'draft_pr',
+  'checks_failing',
+  'changes_requested',
+  'has_conflict',
+  'checks_pending',
+  'awaiting_review',
+  'approved',
+  'merged',
+];
+
+export function getAgentFacts(agent: Agent, prStatus: PrStatus | null | undefined, followupSent: boolean): AgentFacts {
+  const hasPr = !!agent.target?.prUrl;
+  const open = prStatus?.state === 'open';
+  return {
+    status: agent.status,
+    hasPr: String(hasPr),
+    prState: prStatus ? prStatus.state : hasPr ? 'unknown' : 'none',
+    prDraft: String(!!prStatus?.isDraft),
+    hasConflict: String(open && (prStatus.mergeable === false || prStatus.mergeableState === 'dirty')),
+    checksStatus: prStatus ? prStatus.checksStatus : 'none',
+    reviewDecision: prStatus?.reviewDecision ?? 'none',
+    hasApproval: String(!!prStatus?.hasApproval),
+    followupSent: String(followupSent),
+  };
+}
+
+export function resolveColumn(config: ColumnConfig, facts: AgentFacts): string {
+  // Drafts never reach the rules, but keep the mapping total
+  if (facts.status === 'DRAFT') return BACKLOG_COLUMN.id;
+
+  const matched = config.columns.find((definition) =>
+    definition.match.some(
+      (group) => group.length > 0 && group.every((condition) => condition.values.includes(facts[condition.field]))
+    )
+  );
+  return matched?.id ?? config.fallback;
+}
+
+function isRuleCondition(value: unknown): value is RuleCondition {
+  if (!value || typeof value !== 'object') return false;
+  const { field, values } = value as Record<string, unknown>;
+  return (
+    typeof field === 'string' &&
+    field in RULE_FIELDS &&
+    Array.isArray(values) &&
+    values.every((v) => typeof v === 'string')
+  );
+}
+
+function isColumnDefinition(value: unknown): value is ColumnDefinition {
+  if (!value || typeof value !== 'object') return false;
+  const { id, title, description, match } = value as Record<string, unknown>;
+  return (
+    typeof id === 'string' &&
+    id.length > 0 &&
+    id !== BACKLOG_COLUMN.id &&
+    typeof title === 'string' &&
+    typeof description === 'string' &&
+    Array.isArray(match) &&
+    match.every((group) => Array.isArray(group) && group.every(isRuleCondition))
+  );
+}
+
+// Throws with a readable message when the value isn't a usable config
+function parseColumnConfig(value: unknown): ColumnConfig {
+  const { columns, fallback } = (value ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(columns) || columns.length === 0 || !columns.every(isColumnDefinition)) {
+    throw new Error('The column list is missing or malformed');
+  }
+  const ids = columns.map((column) => column.id);
+  if (new Set(ids).size !== ids.length) {
+    throw new Error('Column ids must be unique');
+  }
+  if (typeof fallback !== 'string' || !ids.includes(fallback)) {
+    throw new Error('The fallback column must be one of the columns');
+  }
+  return { columns, fallback };
+}
+
+export function getColumnConfig(): ColumnConfig {
+  try {
+    const data = localStorage.getItem(COLUMN_CONFIG_STORAGE_KEY);
+    return data ? parseColumnConfig(JSON.parse(data)) : DEFAULT_COLUMN_CONFIG;
+  } catch {
+    return DEFAULT_COLUMN_CONFIG;
+  }
+}
+
+export function saveColumnConfig(config: ColumnConfig): void {
+  localStorage.setItem(COLUMN_CONFIG_STORAGE_KEY, JSON.stringify(parseColumnConfig(config)));
+}
+
+export function exportColumnConfig(config: ColumnConfig): string {
+  return JSON.stringify({ version: 1, ...config }, null, 2);
+}
+
+export function importColumnConfig(json: string): ColumnConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  return parseColumnConfig(parsed);
+}
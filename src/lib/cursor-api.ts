@@ -1,3 +1,13 @@
+import { AuthError, NetworkError, createApiError } from '@/lib/api-errors';
+import { cachedFetch, clearHttpCache, peekHttpCache } from '@/lib/http-cache';
+import {
+  type RequestPriority,
+  backoffDelay,
+  createRateLimiter,
+  parseRetryAfter,
+  sleep,
+} from '@/lib/rate-limiter';
+
 // IMPORTANT:
 // Cursor's public API does not allow browser CORS from arbitrary origins.
 // In production we call our own same-origin proxy at `/api/cursor/*` (Vercel serverless),
@@ -8,6 +18,10 @@ const REPOS_CACHE_KEY = 'cursor_repos_cache';
 const REPOS_CACHE_EXPIRY_KEY = 'cursor_repos_cache_expiry';
 const REPOS_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes cache
 
+// Cursor allows 30 requests/minute; every call below shares this bucket
+const cursorRateLimiter = createRateLimiter({ capacity: 30, refillIntervalMs: 2000 });
+const MAX_RETRIES = 3;
+
 // Types based on Cursor Cloud Agents API
 export interface AgentSource {
   repository: string;
@@ -26,188 +40,6 @@ export interface AgentTarget {
 // Cursor API returns these statuses (DRAFT is local-only for drafts)
 export type AgentStatus = 'CREATING' | 'RUNNING' | 'FINISHED' | 'ERROR' | 'EXPIRED' | 'DRAFT';
 
-// PR status fetched from GitHub API
-export interface PrStatus {
-  state: 'open' | 'closed' | 'merged';
-  isDraft: boolean;
-  mergeable: boolean | null;
-  mergeableState: string | null;
-  checksStatus: 'pending' | 'success' | 'failure' | 'unknown';
-  hasApproval: boolean;
-  reviewDecision: string | null;
-}
-
-// Cache for PR statuses
-const PR_STATUS_CACHE: Map<string, { status: PrStatus; fetchedAt: number }> = new Map();
-const PR_STATUS_CACHE_TTL = 60 * 1000; // 1 minute
-
-// Parse PR URL to extract owner, repo, and PR number
-export function parsePrUrl(prUrl: string): { owner: string; repo: string; number: number } | null {
-  try {
-    const match = prUrl.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
-    if (match) {
-      return { owner: match[1], repo: match[2], number: parseInt(match[3], 10) };
-    }
-  } catch {
-    // Invalid URL
-  }
-  return null;
-}
-
-// Fetch PR status from GitHub API (unauthenticated, rate-limited)
-export async function fetchPrStatus(prUrl: string): Promise<PrStatus | null> {
-  const parsed = parsePrUrl(prUrl);
-  if (!parsed) return null;
-
-  // Check cache first
-  const cached = PR_STATUS_CACHE.get(prUrl);
-  if (cached && Date.now() - cached.fetchedAt < PR_STATUS_CACHE_TTL) {
-    return cached.status;
-  }
-
-  try {
-    const { owner, repo, number } = parsed;
-    
-    // Fetch PR details
-    const prResponse = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/pulls/${number}`,
-      {
-        headers: {
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'cursor-kanban',
-        },
-      }
-    );
-
-    if (!prResponse.ok) {
-      console.warn(`Failed to fetch PR status for ${prUrl}: ${prResponse.status}`);
-      return null;
-    }
-
-    const prData = await prResponse.json();
-
-    // Determine merged state
-    const state: 'open' | 'closed' | 'merged' = prData.merged
-      ? 'merged'
-      : prData.state === 'closed'
-      ? 'closed'
-      : 'open';
-
-    // Determine checks status from the head SHA commit status
-    let checksStatus: 'pending' | 'success' | 'failure' | 'unknown' = 'unknown';
-    
-    try {
-      // Try to get combined status
-      const statusResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/commits/${prData.head.sha}/status`,
-        {
-          headers: {
-            'Accept': 'application/vnd.github.v3+json',
-            'User-Agent': 'cursor-kanban',
-          },
-        }
-      );
-      
-      if (statusResponse.ok) {
-        const statusData = await statusResponse.json();
-        if (statusData.state === 'success') {
-          checksStatus = 'success';
-        } else if (statusData.state === 'failure' || statusData.state === 'error') {
-          checksStatus = 'failure';
-        } else if (statusData.state === 'pending') {
-          checksStatus = 'pending';
-        }
-      }
-      
-      // Also check GitHub Actions check runs
-      const checksResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/commits/${prData.head.sha}/check-runs`,
-        {
-          headers: {
-            'Accept': 'application/vnd.github.v3+json',
-            'User-Agent': 'cursor-kanban',
-          },
-        }
-      );
-      
-      if (checksResponse.ok) {
-        const checksData = await checksResponse.json();
-        const checkRuns = checksData.check_runs || [];
-        
-        if (checkRuns.length > 0) {
-          const hasFailure = checkRuns.some((run: { conclusion: string }) => 
-            run.conclusion === 'failure' || run.conclusion === 'cancelled' || run.conclusion === 'timed_out'
-          );
-          const allSuccess = checkRuns.every((run: { conclusion: string; status: string }) => 
-            run.conclusion === 'success' || run.conclusion === 'skipped' || run.conclusion === 'neutral'
-          );
-          const hasPending = checkRuns.some((run: { status: string }) => 
-            run.status === 'queued' || run.status === 'in_progress'
-          );
-          
-          if (hasFailure) {
-            checksStatus = 'failure';
-          } else if (hasPending) {
-            checksStatus = 'pending';
-          } else if (allSuccess) {
-            checksStatus = 'success';
-          }
-        }
-      }
-    } catch (e) {
-      console.warn('Failed to fetch check status:', e);
-    }
-
-    // Determine approval status from review decision
-    const hasApproval = prData.mergeable_state === 'clean' || 
-                       prData.review_decision === 'APPROVED';
-
-    const status: PrStatus = {
-      state,
-      isDraft: prData.draft || false,
-      mergeable: prData.mergeable,
-      mergeableState: prData.mergeable_state,
-      checksStatus,
-      hasApproval,
-      reviewDecision: prData.review_decision || null,
-    };
-
-    // Cache the result
-    PR_STATUS_CACHE.set(prUrl, { status, fetchedAt: Date.now() });
-
-    return status;
-  } catch (error) {
-    console.error(`Error fetching PR status for ${prUrl}:`, error);
-    return null;
-  }
-}
-
-// Batch fetch PR statuses for multiple agents
-export async function fetchPrStatusesForAgents(agents: Agent[]): Promise<Map<string, PrStatus>> {
-  const results = new Map<string, PrStatus>();
-  
-  // Only fetch for agents with PR URLs
-  const agentsWithPrs = agents.filter(a => a.target?.prUrl);
-  
-  // Fetch in parallel with a small concurrency limit to avoid rate limits
-  const BATCH_SIZE = 5;
-  for (let i = 0; i < agentsWithPrs.length; i += BATCH_SIZE) {
-    const batch = agentsWithPrs.slice(i, i + BATCH_SIZE);
-    const promises = batch.map(async (agent) => {
-      const prUrl = agent.target?.prUrl;
-      if (prUrl) {
-        const status = await fetchPrStatus(prUrl);
-        if (status) {
-          results.set(agent.id, status);
-        }
-      }
-    });
-    await Promise.all(promises);
-  }
-  
-  return results;
-}
-
 export interface Agent {
   id: string;
   name: string;
@@ -256,21 +88,34 @@ export function getApiKey(): string | null {
 }
 
 export function setApiKey(key: string): void {
+  if (getApiKey() !== key) {
+    void clearHttpCache('cursor');
+  }
   localStorage.setItem(API_KEY_STORAGE_KEY, key);
 }
 
 export function clearApiKey(): void {
+  void clearHttpCache('cursor');
   localStorage.removeItem(API_KEY_STORAGE_KEY);
 }
 
-// Helper for making authenticated requests
+// `priority` here is our queue priority, not the browser's fetch priority hint
+interface ApiRequestOptions extends Omit<RequestInit, 'priority'> {
+  // Defaults to 'user' for mutations and 'background' for reads
+  priority?: RequestPriority;
+}
+
+// Helper for making authenticated requests.
+// Goes through the shared rate limiter and retries 429s (honouring Retry-After) and, for
+// idempotent GETs, 5xx responses and network failures with exponential backoff.
+// Failures are thrown as the typed errors from `api-errors`.
 async function apiRequest<T>(
   endpoint: string,
-  options: RequestInit = {}
+  { priority, ...options }: ApiRequestOptions = {}
 ): Promise<T> {
   const apiKey = getApiKey();
   if (!apiKey) {
-    throw new Error('API key not set');
+    throw new AuthError('API key not set', null);
   }
 
   const headers = new Headers(options.headers);
@@ -279,35 +124,68 @@ async function apiRequest<T>(
     headers.set('Content-Type', 'application/json');
   }
 
-  const response = await fetch(`${API_BASE}${endpoint}`, {
-    ...options,
-    headers,
-  });
+  // GETs are revalidated with ETags so unchanged pages come back as cheap 304s
+  const url = `${API_BASE}${endpoint}`;
+  const isGet = !options.method || options.method.toUpperCase() === 'GET';
+  const requestPriority = priority ?? (isGet ? 'background' : 'user');
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await cursorRateLimiter.schedule(
+        () => (isGet ? cachedFetch('cursor', url, { ...options, headers }) : fetch(url, { ...options, headers })),
+        requestPriority
+      );
+    } catch (err) {
+      // A failed mutation may still have reached the server, so only GETs are retried
+      if (isGet && attempt < MAX_RETRIES) {
+        await sleep(backoffDelay(attempt));
+        continue;
+      }
+      throw new NetworkError(err instanceof Error && err.message !== 'Failed to fetch' ? err.message : undefined);
+    }
+
+    if (response.ok) {
+      return response.json();
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    const retryable = response.status === 429 || (isGet && response.status >= 500);
+    if (retryable && attempt < MAX_RETRIES) {
+      const delay = retryAfter ?? backoffDelay(attempt);
+      if (response.status === 429) {
+        // Hold back every queued request, not just this one
+        cursorRateLimiter.pause(delay);
+      }
+      await sleep(delay);
+      continue;
+    }
 
-  if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(`API Error (${response.status}): ${errorText}`);
+    throw createApiError(response.status, errorText, retryAfter);
   }
-
-  return response.json();
 }
 
 // API Methods
 
 export async function testConnection(): Promise<ApiKeyInfo> {
-  return apiRequest<ApiKeyInfo>('/v0/me');
+  return apiRequest<ApiKeyInfo>('/v0/me', { priority: 'user' });
 }
 
-export async function listAgents(
-  limit: number = 100,
-  cursor?: string
-): Promise<ListAgentsResponse> {
+function listAgentsEndpoint(limit: number, cursor?: string): string {
   const params = new URLSearchParams();
   params.set('limit', limit.toString());
   if (cursor) {
     params.set('cursor', cursor);
   }
-  const response = await apiRequest<ListAgentsResponse>(`/v0/agents?${params.toString()}`);
+  return `/v0/agents?${params.toString()}`;
+}
+
+export async function listAgents(
+  limit: number = 100,
+  cursor?: string
+): Promise<ListAgentsResponse> {
+  const response = await apiRequest<ListAgentsResponse>(listAgentsEndpoint(limit, cursor));
   // Never surface EXPIRED agents in the app.
   // Cursor may still return them from the list endpoint; we filter them out centrally.
   return {
@@ -329,27 +207,61 @@ export async function getAllAgents(): Promise<Agent[]> {
   return allAgents;
 }
 
+// Agents from the last successful listing, read page by page from the HTTP cache.
+// Lets the board render immediately on load; returns null if nothing was cached.
+export async function getCachedAgents(): Promise<Agent[] | null> {
+  const allAgents: Agent[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await peekHttpCache<ListAgentsResponse>('cursor', `${API_BASE}${listAgentsEndpoint(100, cursor)}`);
+    if (!page) {
+      return allAgents.length > 0 ? allAgents : null;
+    }
+    allAgents.push(...page.agents.filter((a) => a.status !== 'EXPIRED'));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return allAgents;
+}
+
 export async function getAgent(id: string): Promise<Agent> {
   return apiRequest<Agent>(`/v0/agents/${id}`);
 }
 
-export async function getConversation(id: string): Promise<Conversation> {
-  return apiRequest<Conversation>(`/v0/agents/${id}/conversation`);
+// Live drawer polling passes 'background' so it never delays user actions
+export async function getConversation(id: string, priority: RequestPriority = 'user'): Promise<Conversation> {
+  return apiRequest<Conversation>(`/v0/agents/${id}/conversation`, { priority });
 }
 
+// The part of AgentTarget that can be chosen when launching (url/prUrl are filled in by Cursor)
+export type AgentTargetOptions = Omit<AgentTarget, 'url' | 'prUrl'>;
+
 export interface CreateAgentParams {
   repository: string;
   ref?: string;
   prompt: string;
   model?: string;
-  autoCreatePr?: boolean;
+  target?: AgentTargetOptions;
+}
+
+// Drop unset options so Cursor applies its own defaults
+function buildTarget(options: AgentTargetOptions | undefined): AgentTargetOptions | null {
+  if (!options) return null;
+  const target: AgentTargetOptions = {};
+  if (options.autoCreatePr !== undefined) target.autoCreatePr = options.autoCreatePr;
+  if (options.branchName?.trim()) target.branchName = options.branchName.trim();
+  if (options.openAsCursorGithubApp !== undefined) target.openAsCursorGithubApp = options.openAsCursorGithubApp;
+  if (options.skipReviewerRequest !== undefined) target.skipReviewerRequest = options.skipReviewerRequest;
+  return Object.keys(target).length > 0 ? target : null;
 }
 
 export async function createAgent(params: CreateAgentParams): Promise<Agent> {
   const body: Record<string, unknown> = {
     source: {
       repository: params.repository,
-      ref: params.ref || 'main',
+      // Without a ref Cursor starts from the repository's default branch
+      ...(params.ref ? { ref: params.ref } : {}),
     },
     prompt: {
       text: params.prompt,
@@ -360,10 +272,9 @@ export async function createAgent(params: CreateAgentParams): Promise<Agent> {
     body.model = params.model;
   }
 
-  if (params.autoCreatePr !== undefined) {
-    body.target = {
-      autoCreatePr: params.autoCreatePr,
-    };
+  const target = buildTarget(params.target);
+  if (target) {
+    body.target = target;
   }
 
   return apiRequest<Agent>('/v0/agents', {
@@ -403,7 +314,7 @@ export async function deleteAgent(id: string): Promise<{ id: string }> {
 }
 
 export async function listModels(): Promise<{ models: string[] }> {
-  return apiRequest<{ models: string[] }>('/v0/models');
+  return apiRequest<{ models: string[] }>('/v0/models', { priority: 'user' });
 }
 
 export async function listRepositories(
@@ -423,7 +334,8 @@ export async function listRepositories(
   }
 
   const data = await apiRequest<{ repositories: Repository[] }>(
-    '/v0/repositories'
+    '/v0/repositories',
+    { priority: 'user' }
   );
 
   // Cache the result
@@ -450,6 +362,35 @@ export function setLastRepository(repository: string): void {
   localStorage.setItem(LAST_REPOSITORY_KEY, repository);
 }
 
+// Target options remembered per repository (the branch name is per task, so it isn't kept).
+// Only options the user actually set are kept; the rest stay unset so Cursor applies its defaults.
+const REPOSITORY_TARGET_DEFAULTS_KEY = 'cursor_repository_target_defaults';
+
+export type RepositoryTargetDefaults = Omit<AgentTargetOptions, 'branchName'>;
+
+function getAllRepositoryTargetDefaults(): Record<string, RepositoryTargetDefaults> {
+  try {
+    const data = localStorage.getItem(REPOSITORY_TARGET_DEFAULTS_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getRepositoryTargetDefaults(repository: string): RepositoryTargetDefaults {
+  return { ...getAllRepositoryTargetDefaults()[repository] };
+}
+
+export function setRepositoryTargetDefaults(repository: string, options: AgentTargetOptions): void {
+  const all = getAllRepositoryTargetDefaults();
+  all[repository] = {
+    autoCreatePr: options.autoCreatePr,
+    openAsCursorGithubApp: options.openAsCursorGithubApp,
+    skipReviewerRequest: options.skipReviewerRequest,
+  };
+  localStorage.setItem(REPOSITORY_TARGET_DEFAULTS_KEY, JSON.stringify(all));
+}
+
 export interface DraftAgent {
   id: string;
   name: string;
@@ -457,9 +398,21 @@ export interface DraftAgent {
   ref: string;
   prompt: string;
   model?: string;
+  target?: AgentTargetOptions;
   createdAt: string;
+  updatedAt?: string;
+  // Earlier versions of the editable fields, oldest first
+  revisions?: DraftRevision[];
+}
+
+export type DraftFields = Pick<DraftAgent, 'name' | 'repository' | 'ref' | 'prompt' | 'model' | 'target'>;
+
+export interface DraftRevision extends DraftFields {
+  savedAt: string;
 }
 
+const MAX_DRAFT_REVISIONS = 20;
+
 export function getDrafts(): DraftAgent[] {
   const data = localStorage.getItem(DRAFTS_STORAGE_KEY);
   return data ? JSON.parse(data) : [];
@@ -477,11 +430,61 @@ export function saveDraft(draft: Omit<DraftAgent, 'id' | 'createdAt'>): DraftAge
   return newDraft;
 }
 
+// Apply edits to a draft, keeping the replaced version in its revision history
+export function updateDraft(id: string, changes: Partial<DraftFields>): DraftAgent | undefined {
+  const drafts = getDrafts();
+  const index = drafts.findIndex((d) => d.id === id);
+  if (index === -1) return undefined;
+
+  const current = drafts[index];
+  const previous: DraftRevision = {
+    name: current.name,
+    repository: current.repository,
+    ref: current.ref,
+    prompt: current.prompt,
+    model: current.model,
+    target: current.target,
+    savedAt: current.updatedAt ?? current.createdAt,
+  };
+  const updated: DraftAgent = {
+    ...current,
+    ...changes,
+    updatedAt: new Date().toISOString(),
+    revisions: [...(current.revisions ?? []), previous].slice(-MAX_DRAFT_REVISIONS),
+  };
+
+  drafts[index] = updated;
+  localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts));
+  return updated;
+}
+
+// Roll back to a revision; the version being replaced becomes a revision itself, so this can be undone too
+export function restoreDraftRevision(id: string, revisionIndex: number): DraftAgent | undefined {
+  const revision = getDraft(id)?.revisions?.[revisionIndex];
+  if (!revision) return undefined;
+  return updateDraft(id, {
+    name: revision.name,
+    repository: revision.repository,
+    ref: revision.ref,
+    prompt: revision.prompt,
+    model: revision.model,
+    target: revision.target,
+  });
+}
+
 export function deleteDraft(id: string): void {
   const drafts = getDrafts().filter((d) => d.id !== id);
   localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts));
 }
 
+// Put back a previously deleted draft (keeps its id and createdAt), e.g. from an undo action
+export function restoreDraft(draft: DraftAgent): void {
+  const drafts = getDrafts().filter((d) => d.id !== draft.id);
+  drafts.push(draft);
+  drafts.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts));
+}
+
 export function getDraft(id: string): DraftAgent | undefined {
   return getDrafts().find((d) => d.id === id);
 }
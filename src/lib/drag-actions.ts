@@ -0,0 +1,95 @@
+import type { Agent, DraftAgent } from '@/lib/cursor-api';
+import type { PrStatus } from '@/lib/github-api';
+import { type ColumnConfig, type ColumnDefinition, type RuleField, BACKLOG_COLUMN } from '@/lib/column-rules';
+
+// What dropping a card onto another board column does. Derived from the target column's rules
+// (the agent states it holds), so renamed and custom columns keep their actions.
+// The board asks for confirmation and then runs its handler for the action's id.
+export type DragActionId = 'launch' | 'stop' | 'fix-ci' | 'merge';
+
+export interface DragActionTarget {
+  item: Agent | DraftAgent;
+  prStatus?: PrStatus;
+}
+
+export interface DragAction {
+  id: DragActionId;
+  // Heading of the confirm popover
+  title: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  // Extra per-card condition, e.g. the PR must still be open
+  canApply?: (target: DragActionTarget) => boolean;
+}
+
+export const FIX_CI_FOLLOWUP =
+  'The CI checks on your pull request are failing. Look at the failing checks, fix the cause and push the fix to the same branch.';
+
+const LAUNCH: DragAction = { id: 'launch', title: 'Launch this draft?', confirmLabel: 'Launch' };
+
+const STOP: DragAction = {
+  id: 'stop',
+  title: 'Stop this agent?',
+  confirmLabel: 'Stop',
+  destructive: true,
+  canApply: ({ item }) => (item as Agent).status === 'RUNNING',
+};
+
+const FIX_CI: DragAction = {
+  id: 'fix-ci',
+  title: 'Ask the agent to fix CI?',
+  confirmLabel: 'Send follow-up',
+  canApply: ({ item, prStatus }) =>
+    (item as Agent).status === 'FINISHED' && prStatus?.state === 'open' && prStatus.checksStatus === 'failure',
+};
+
+const MERGE: DragAction = {
+  id: 'merge',
+  title: 'Merge the pull request?',
+  confirmLabel: 'Merge',
+  canApply: ({ item, prStatus }) =>
+    !!(item as Agent).target?.prUrl &&
+    prStatus?.state === 'open' &&
+    !prStatus.isDraft &&
+    prStatus.mergeable !== false,
+};
+
+// A column "holds" a value when one of its rule groups matches on it
+function holds(column: ColumnDefinition, field: RuleField, ...values: string[]): boolean {
+  return column.match.some((group) =>
+    group.some((condition) => condition.field === field && values.some((value) => condition.values.includes(value)))
+  );
+}
+
+// What dropping an agent onto this column could mean, most specific first.
+// GitHub still enforces branch protection, so a blocked merge fails with its reason.
+function agentActionsFor(column: ColumnDefinition): DragAction[] {
+  const actions: DragAction[] = [];
+  if (holds(column, 'prState', 'merged')) actions.push(MERGE);
+  if (holds(column, 'status', 'RUNNING')) actions.push(FIX_CI);
+  if (holds(column, 'status', 'ERROR', 'EXPIRED')) actions.push(STOP);
+  return actions;
+}
+
+function actionsFor(fromColumn: string, column: ColumnDefinition): DragAction[] {
+  if (fromColumn === BACKLOG_COLUMN.id) return holds(column, 'status', 'CREATING', 'RUNNING') ? [LAUNCH] : [];
+  return agentActionsFor(column);
+}
+
+// The action for this drop, or undefined when the drop means nothing for this card
+export function getDragAction(
+  config: ColumnConfig,
+  fromColumn: string,
+  toColumn: string,
+  target: DragActionTarget
+): DragAction | undefined {
+  if (fromColumn === toColumn) return undefined;
+  const column = config.columns.find((definition) => definition.id === toColumn);
+  if (!column) return undefined;
+  return actionsFor(fromColumn, column).find((action) => !action.canApply || action.canApply(target));
+}
+
+// Whether cards in this column can be dragged anywhere at all
+export function hasDragActions(config: ColumnConfig, fromColumn: string): boolean {
+  return config.columns.some((column) => column.id !== fromColumn && actionsFor(fromColumn, column).length > 0);
+}
@@ -0,0 +1,721 @@
+import type { Agent } from '@/lib/cursor-api';
+import { cachedFetch, clearHttpCache } from '@/lib/http-cache';
+import { idbDeletePrefix, idbGetAll, idbSet } from '@/lib/idb';
+
+// GitHub allows browser CORS, so unlike Cursor we call api.github.com directly.
+// Unauthenticated requests are limited to 60/hour per IP; with a token it's 5000/hour
+// and private repositories become visible.
+const GITHUB_API_BASE = 'https://api.github.com';
+const GITHUB_TOKEN_STORAGE_KEY = 'github_token';
+
+export interface GithubRateLimit {
+  limit: number;
+  remaining: number;
+  used: number;
+  // Unix epoch (ms) when the window resets
+  resetAt: number;
+  resource: string;
+}
+
+export interface GithubUser {
+  login: string;
+  name: string | null;
+  avatar_url: string;
+}
+
+export type ReviewDecision = 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED';
+
+export type ReviewState = 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED';
+
+// Latest meaningful review per reviewer
+export interface PrReviewer {
+  login: string;
+  state: ReviewState;
+}
+
+// PR status fetched from GitHub API
+export interface PrStatus {
+  state: 'open' | 'closed' | 'merged';
+  isDraft: boolean;
+  mergeable: boolean | null;
+  mergeableState: string | null;
+  checksStatus: 'pending' | 'success' | 'failure' | 'unknown';
+  hasApproval: boolean;
+  // GitHub's decision; null when branch protection doesn't require reviews (REST: derived from reviews)
+  reviewDecision: ReviewDecision | null;
+  reviewers: PrReviewer[];
+  // Users and teams whose review is still outstanding
+  requestedReviewers: string[];
+}
+
+// Cache for PR statuses (mirrored to IndexedDB so the board can render them right after a reload)
+interface PrStatusCacheEntry {
+  status: PrStatus;
+  fetchedAt: number;
+}
+const PR_STATUS_CACHE: Map<string, PrStatusCacheEntry> = new Map();
+const PR_STATUS_CACHE_TTL = 60 * 1000; // 1 minute
+let prStatusCacheHydration: Promise<void> | null = null;
+
+function hydratePrStatusCache(): Promise<void> {
+  if (!prStatusCacheHydration) {
+    prStatusCacheHydration = idbGetAll<PrStatusCacheEntry>('pr-status')
+      .then((entries) => {
+        for (const { key, value } of entries) {
+          // Anything fetched this session is newer than what was persisted
+          if (!PR_STATUS_CACHE.has(key)) PR_STATUS_CACHE.set(key, value);
+        }
+      })
+      .catch(() => {
+        // IndexedDB unavailable - start cold
+      });
+  }
+  return prStatusCacheHydration;
+}
+
+function cachePrStatus(prUrl: string, status: PrStatus): void {
+  const entry = { status, fetchedAt: Date.now() };
+  PR_STATUS_CACHE.set(prUrl, entry);
+  idbSet('pr-status', prUrl, entry).catch(() => {
+    // ignore persistence failures
+  });
+}
+
+function clearPrStatusCache(): void {
+  PR_STATUS_CACHE.clear();
+  idbDeletePrefix('pr-status', '').catch(() => {
+    // nothing persisted
+  });
+}
+
+// Token Management
+export function getGithubToken(): string | null {
+  return localStorage.getItem(GITHUB_TOKEN_STORAGE_KEY);
+}
+
+// A different token can see different repos, so cached responses are dropped on change
+export function setGithubToken(token: string): void {
+  if (getGithubToken() !== token) {
+    clearPrStatusCache();
+    void clearHttpCache('github');
+    setPrStatusError(null);
+  }
+  localStorage.setItem(GITHUB_TOKEN_STORAGE_KEY, token);
+}
+
+export function clearGithubToken(): void {
+  clearPrStatusCache();
+  setPrStatusError(null);
+  void clearHttpCache('github');
+  localStorage.removeItem(GITHUB_TOKEN_STORAGE_KEY);
+}
+
+// Rate limit tracking (updated from response headers of every GitHub request)
+let rateLimit: GithubRateLimit | null = null;
+const rateLimitListeners = new Set<() => void>();
+
+export function getGithubRateLimit(): GithubRateLimit | null {
+  return rateLimit;
+}
+
+export function subscribeGithubRateLimit(listener: () => void): () => void {
+  rateLimitListeners.add(listener);
+  return () => {
+    rateLimitListeners.delete(listener);
+  };
+}
+
+// Why the last batched PR status fetch failed (e.g. an expired or under-scoped token), until one succeeds
+let prStatusError: string | null = null;
+const prStatusErrorListeners = new Set<() => void>();
+
+function setPrStatusError(message: string | null): void {
+  if (prStatusError === message) return;
+  prStatusError = message;
+  prStatusErrorListeners.forEach((listener) => listener());
+}
+
+export function getGithubPrStatusError(): string | null {
+  return prStatusError;
+}
+
+export function subscribeGithubPrStatusError(listener: () => void): () => void {
+  prStatusErrorListeners.add(listener);
+  return () => {
+    prStatusErrorListeners.delete(listener);
+  };
+}
+
+function updateRateLimit(headers: Headers): void {
+  const limit = headers.get('x-ratelimit-limit');
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) return;
+
+  rateLimit = {
+    limit: parseInt(limit, 10),
+    remaining: parseInt(remaining, 10),
+    used: parseInt(headers.get('x-ratelimit-used') ?? '0', 10),
+    resetAt: parseInt(reset, 10) * 1000,
+    resource: headers.get('x-ratelimit-resource') ?? 'core',
+  };
+  rateLimitListeners.forEach((listener) => listener());
+}
+
+// Every GitHub call goes through here so auth and rate-limit bookkeeping stay in one place.
+// Returns the raw response; callers decide how to treat non-2xx (e.g. 404 on a deleted PR).
+export async function githubFetch(path: string, options: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(options.headers);
+  if (!headers.has('Accept')) {
+    headers.set('Accept', 'application/vnd.github+json');
+  }
+  headers.set('X-GitHub-Api-Version', '2022-11-28');
+
+  // A caller-supplied Authorization (e.g. testing a token before it's saved) wins over the stored token
+  const token = getGithubToken();
+  if (token && !headers.has('Authorization')) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  // GETs are revalidated with ETags; 304 responses don't count against the rate limit
+  const url = `${GITHUB_API_BASE}${path}`;
+  const isGet = !options.method || options.method.toUpperCase() === 'GET';
+  const response = isGet
+    ? await cachedFetch('github', url, { ...options, headers })
+    : await fetch(url, { ...options, headers });
+
+  updateRateLimit(response.headers);
+  return response;
+}
+
+async function githubRequest<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const response = await githubFetch(path, options);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`GitHub API Error (${response.status}): ${errorText}`);
+  }
+
+  return response.json();
+}
+
+// Checks `token` without storing it (storing clears caches), or the stored token when omitted
+export async function testGithubConnection(token?: string): Promise<GithubUser> {
+  return githubRequest<GithubUser>('/user', token ? { headers: { Authorization: `Bearer ${token}` } } : {});
+}
+
+// Collapse a chronological review list to one state per reviewer.
+// A later comment doesn't undo an approval or change request, but a dismissal does.
+export function summarizeReviews(reviews: Array<{ login: string; state: string }>): PrReviewer[] {
+  const byLogin = new Map<string, ReviewState>();
+  for (const { login, state } of reviews) {
+    if (state === 'APPROVED' || state === 'CHANGES_REQUESTED') {
+      byLogin.set(login, state);
+    } else if (state === 'DISMISSED') {
+      byLogin.delete(login);
+    } else if (state === 'COMMENTED' && !byLogin.has(login)) {
+      byLogin.set(login, 'COMMENTED');
+    }
+  }
+  return [...byLogin].map(([login, state]) => ({ login, state }));
+}
+
+// Approved when GitHub says so, or, for repos without required reviews, when someone approved
+// and nobody is blocking
+function isApproved(reviewDecision: ReviewDecision | null, reviewers: PrReviewer[]): boolean {
+  if (reviewDecision) return reviewDecision === 'APPROVED';
+  return reviewers.some((r) => r.state === 'APPROVED') && !reviewers.some((r) => r.state === 'CHANGES_REQUESTED');
+}
+
+// Parse a Cursor repository string ("https://github.com/owner/repo", "github.com/owner/repo" or "owner/repo")
+export function parseRepositoryUrl(repository: string): { owner: string; repo: string } | null {
+  const match =
+    repository.match(/github\.com\/([^/]+)\/([^/#?]+?)(?:\.git)?\/?$/) ?? repository.match(/^([\w.-]+)\/([\w.-]+)$/);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+export interface RepositoryRef {
+  name: string;
+  type: 'branch' | 'tag';
+  sha: string;
+}
+
+export interface RepositoryRefs {
+  defaultBranch: string;
+  // Default branch first, then the remaining branches, then tags
+  refs: RepositoryRef[];
+}
+
+export interface RefCommit {
+  sha: string;
+  message: string;
+  author: string | null;
+  date: string;
+  url: string;
+}
+
+// Repos with thousands of branches are rare; the picker still accepts any ref typed by hand
+const MAX_REF_PAGES = 3;
+const REFS_PER_PAGE = 100;
+
+async function fetchRefPages<T>(path: string): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; page <= MAX_REF_PAGES; page++) {
+    const batch = await githubRequest<T[]>(`${path}?per_page=${REFS_PER_PAGE}&page=${page}`);
+    items.push(...batch);
+    if (batch.length < REFS_PER_PAGE) break;
+  }
+  return items;
+}
+
+// Branches and tags of a GitHub repository, plus its default branch
+export async function fetchRepositoryRefs(repository: string): Promise<RepositoryRefs> {
+  const parsed = parseRepositoryUrl(repository);
+  if (!parsed) {
+    throw new Error('Not a GitHub repository');
+  }
+  const base = `/repos/${parsed.owner}/${parsed.repo}`;
+
+  const [repo, branches, tags] = await Promise.all([
+    githubRequest<{ default_branch: string }>(base),
+    fetchRefPages<{ name: string; commit: { sha: string } }>(`${base}/branches`),
+    fetchRefPages<{ name: string; commit: { sha: string } }>(`${base}/tags`),
+  ]);
+
+  const defaultBranch = repo.default_branch;
+  const branchRefs: RepositoryRef[] = branches.map((b) => ({ name: b.name, type: 'branch', sha: b.commit.sha }));
+  branchRefs.sort((a, b) => (a.name === defaultBranch ? -1 : b.name === defaultBranch ? 1 : a.name.localeCompare(b.name)));
+
+  return {
+    defaultBranch,
+    refs: [...branchRefs, ...tags.map((t): RepositoryRef => ({ name: t.name, type: 'tag', sha: t.commit.sha }))],
+  };
+}
+
+// Latest commit on a branch/tag (or the commit itself for a SHA); null when the ref doesn't exist
+export async function fetchRefCommit(repository: string, ref: string): Promise<RefCommit | null> {
+  const parsed = parseRepositoryUrl(repository);
+  if (!parsed || !ref) return null;
+
+  const response = await githubFetch(`/repos/${parsed.owner}/${parsed.repo}/commits/${encodeURIComponent(ref)}`);
+  if (response.status === 404 || response.status === 422) return null;
+  if (!response.ok) {
+    throw new Error(`GitHub API Error (${response.status}): ${await response.text()}`);
+  }
+
+  const data: {
+    sha: string;
+    html_url: string;
+    author: { login: string } | null;
+    commit: { message: string; author: { name: string; date: string } | null; committer: { date: string } | null };
+  } = await response.json();
+
+  return {
+    sha: data.sha,
+    message: data.commit.message.split('\n')[0],
+    author: data.author?.login ?? data.commit.author?.name ?? null,
+    date: data.commit.committer?.date ?? data.commit.author?.date ?? '',
+    url: data.html_url,
+  };
+}
+
+// Parse PR URL to extract owner, repo, and PR number
+export function parsePrUrl(prUrl: string): { owner: string; repo: string; number: number } | null {
+  try {
+    const match = prUrl.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
+    if (match) {
+      return { owner: match[1], repo: match[2], number: parseInt(match[3], 10) };
+    }
+  } catch {
+    // Invalid URL
+  }
+  return null;
+}
+
+// Fetch PR status from GitHub API
+export async function fetchPrStatus(prUrl: string): Promise<PrStatus | null> {
+  const parsed = parsePrUrl(prUrl);
+  if (!parsed) return null;
+
+  // Check cache first
+  await hydratePrStatusCache();
+  const cached = PR_STATUS_CACHE.get(prUrl);
+  if (cached && Date.now() - cached.fetchedAt < PR_STATUS_CACHE_TTL) {
+    return cached.status;
+  }
+
+  try {
+    const { owner, repo, number } = parsed;
+
+    // Fetch PR details
+    const prResponse = await githubFetch(`/repos/${owner}/${repo}/pulls/${number}`);
+
+    if (!prResponse.ok) {
+      console.warn(`Failed to fetch PR status for ${prUrl}: ${prResponse.status}`);
+      return null;
+    }
+
+    const prData = await prResponse.json();
+
+    // Determine merged state
+    const state: 'open' | 'closed' | 'merged' = prData.merged
+      ? 'merged'
+      : prData.state === 'closed'
+      ? 'closed'
+      : 'open';
+
+    // Determine checks status from the head SHA commit status
+    let checksStatus: 'pending' | 'success' | 'failure' | 'unknown' = 'unknown';
+
+    try {
+      // Try to get combined status
+      const statusResponse = await githubFetch(`/repos/${owner}/${repo}/commits/${prData.head.sha}/status`);
+
+      if (statusResponse.ok) {
+        const statusData = await statusResponse.json();
+        if (statusData.state === 'success') {
+          checksStatus = 'success';
+        } else if (statusData.state === 'failure' || statusData.state === 'error') {
+          checksStatus = 'failure';
+        } else if (statusData.state === 'pending') {
+          checksStatus = 'pending';
+        }
+      }
+
+      // Also check GitHub Actions check runs
+      const checksResponse = await githubFetch(`/repos/${owner}/${repo}/commits/${prData.head.sha}/check-runs`);
+
+      if (checksResponse.ok) {
+        const checksData = await checksResponse.json();
+        const checkRuns = checksData.check_runs || [];
+
+        if (checkRuns.length > 0) {
+          const hasFailure = checkRuns.some((run: { conclusion: string }) =>
+            run.conclusion === 'failure' || run.conclusion === 'cancelled' || run.conclusion === 'timed_out'
+          );
+          const allSuccess = checkRuns.every((run: { conclusion: string; status: string }) =>
+            run.conclusion === 'success' || run.conclusion === 'skipped' || run.conclusion === 'neutral'
+          );
+          const hasPending = checkRuns.some((run: { status: string }) =>
+            run.status === 'queued' || run.status === 'in_progress'
+          );
+
+          if (hasFailure) {
+            checksStatus = 'failure';
+          } else if (hasPending) {
+            checksStatus = 'pending';
+          } else if (allSuccess) {
+            checksStatus = 'success';
+          }
+        }
+      }
+    } catch (e) {
+      console.warn('Failed to fetch check status:', e);
+    }
+
+    // The REST pulls endpoint has no review decision, so derive it from the reviews themselves
+    let reviewers: PrReviewer[] = [];
+    try {
+      const reviewsResponse = await githubFetch(`/repos/${owner}/${repo}/pulls/${number}/reviews?per_page=100`);
+      if (reviewsResponse.ok) {
+        const reviewsData: Array<{ user: { login: string } | null; state: string }> = await reviewsResponse.json();
+        reviewers = summarizeReviews(
+          reviewsData.filter((r) => r.user).map((r) => ({ login: r.user!.login, state: r.state }))
+        );
+      }
+    } catch (e) {
+      console.warn('Failed to fetch reviews:', e);
+    }
+
+    const requestedReviewers: string[] = [
+      ...(prData.requested_reviewers || []).map((u: { login: string }) => u.login),
+      ...(prData.requested_teams || []).map((t: { slug: string }) => t.slug),
+    ];
+
+    const reviewDecision: ReviewDecision | null = reviewers.some((r) => r.state === 'CHANGES_REQUESTED')
+      ? 'CHANGES_REQUESTED'
+      : reviewers.some((r) => r.state === 'APPROVED')
+      ? 'APPROVED'
+      : requestedReviewers.length > 0
+      ? 'REVIEW_REQUIRED'
+      : null;
+
+    const status: PrStatus = {
+      state,
+      isDraft: prData.draft || false,
+      mergeable: prData.mergeable,
+      mergeableState: prData.mergeable_state,
+      checksStatus,
+      hasApproval: isApproved(reviewDecision, reviewers),
+      reviewDecision,
+      reviewers,
+      requestedReviewers,
+    };
+
+    // Cache the result
+    cachePrStatus(prUrl, status);
+
+    return status;
+  } catch (error) {
+    console.error(`Error fetching PR status for ${prUrl}:`, error);
+    return null;
+  }
+}
+
+// Merge a pull request with the repository's default merge method. Throws on 405/409 (not mergeable).
+export async function mergePullRequest(prUrl: string): Promise<void> {
+  const parsed = parsePrUrl(prUrl);
+  if (!parsed) {
+    throw new Error(`Not a GitHub pull request URL: ${prUrl}`);
+  }
+
+  const { owner, repo, number } = parsed;
+  await githubRequest(`/repos/${owner}/${repo}/pulls/${number}/merge`, { method: 'PUT' });
+
+  // Don't let a cached "open" status put the card back until the next refresh
+  const cached = PR_STATUS_CACHE.get(prUrl);
+  if (cached) {
+    cachePrStatus(prUrl, { ...cached.status, state: 'merged' });
+  }
+}
+
+// GraphQL pull request fields needed to build a PrStatus
+interface GraphqlPullRequest {
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  isDraft: boolean;
+  mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+  mergeStateStatus: string | null;
+  reviewDecision: ReviewDecision | null;
+  latestReviews: {
+    nodes: Array<{ state: string; author: { login: string } | null }>;
+  };
+  reviewRequests: {
+    nodes: Array<{ requestedReviewer: { login?: string; slug?: string } | null }>;
+  };
+  commits: {
+    nodes: Array<{
+      commit: {
+        statusCheckRollup: { state: 'SUCCESS' | 'FAILURE' | 'ERROR' | 'PENDING' | 'EXPECTED' } | null;
+      };
+    }>;
+  };
+}
+
+const PULL_REQUEST_FIELDS = `
+  state
+  isDraft
+  mergeable
+  mergeStateStatus
+  reviewDecision
+  latestReviews(first: 50) {
+    nodes {
+      state
+      author {
+        login
+      }
+    }
+  }
+  reviewRequests(first: 50) {
+    nodes {
+      requestedReviewer {
+        ... on User {
+          login
+        }
+        ... on Team {
+          slug
+        }
+      }
+    }
+  }
+  commits(last: 1) {
+    nodes {
+      commit {
+        statusCheckRollup {
+          state
+        }
+      }
+    }
+  }
+`;
+
+// Keeps a single query well under GitHub's node/complexity limits
+const GRAPHQL_BATCH_SIZE = 50;
+
+// GraphQL requires authentication, unlike the REST endpoints
+export async function githubGraphql<T>(query: string, variables: Record<string, unknown>): Promise<{
+  data: T | null;
+  errors?: Array<{ message: string; path?: string[] }>;
+}> {
+  return githubRequest('/graphql', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables }),
+  });
+}
+
+function prStatusFromGraphql(pr: GraphqlPullRequest): PrStatus {
+  const rollup = pr.commits.nodes[0]?.commit.statusCheckRollup?.state;
+  let checksStatus: PrStatus['checksStatus'] = 'unknown';
+  if (rollup === 'SUCCESS') {
+    checksStatus = 'success';
+  } else if (rollup === 'FAILURE' || rollup === 'ERROR') {
+    checksStatus = 'failure';
+  } else if (rollup === 'PENDING' || rollup === 'EXPECTED') {
+    checksStatus = 'pending';
+  }
+
+  // Lowercase to match the REST `mergeable_state` values ('clean', 'dirty', ...)
+  const mergeableState = pr.mergeStateStatus ? pr.mergeStateStatus.toLowerCase() : null;
+
+  const reviewers = summarizeReviews(
+    pr.latestReviews.nodes.filter((r) => r.author).map((r) => ({ login: r.author!.login, state: r.state }))
+  );
+  const requestedReviewers = pr.reviewRequests.nodes
+    .map((r) => r.requestedReviewer?.login ?? r.requestedReviewer?.slug)
+    .filter((name): name is string => !!name);
+
+  return {
+    state: pr.state === 'MERGED' ? 'merged' : pr.state === 'CLOSED' ? 'closed' : 'open',
+    isDraft: pr.isDraft,
+    mergeable: pr.mergeable === 'MERGEABLE' ? true : pr.mergeable === 'CONFLICTING' ? false : null,
+    mergeableState,
+    checksStatus,
+    hasApproval: isApproved(pr.reviewDecision, reviewers),
+    reviewDecision: pr.reviewDecision,
+    reviewers,
+    requestedReviewers,
+  };
+}
+
+// Fetch many PR statuses in one GraphQL round trip, one aliased `repository` field per PR
+async function fetchPrStatusesGraphql(prUrls: string[]): Promise<Map<string, PrStatus>> {
+  const results = new Map<string, PrStatus>();
+  const parsed = prUrls
+    .map((url) => ({ url, pr: parsePrUrl(url) }))
+    .filter((p): p is { url: string; pr: NonNullable<ReturnType<typeof parsePrUrl>> } => p.pr !== null);
+
+  for (let i = 0; i < parsed.length; i += GRAPHQL_BATCH_SIZE) {
+    const batch = parsed.slice(i, i + GRAPHQL_BATCH_SIZE);
+    const variableDefs: string[] = [];
+    const fields: string[] = [];
+    const variables: Record<string, unknown> = {};
+
+    batch.forEach(({ pr }, index) => {
+      variableDefs.push(`$owner${index}: String!, $name${index}: String!, $number${index}: Int!`);
+      fields.push(
+        `pr${index}: repository(owner: $owner${index}, name: $name${index}) { pullRequest(number: $number${index}) { ${PULL_REQUEST_FIELDS} } }`
+      );
+      variables[`owner${index}`] = pr.owner;
+      variables[`name${index}`] = pr.repo;
+      variables[`number${index}`] = pr.number;
+    });
+
+    const query = `query PrStatuses(${variableDefs.join(', ')}) {\n${fields.join('\n')}\n}`;
+    const response = await githubGraphql<Record<string, { pullRequest: GraphqlPullRequest | null } | null>>(
+      query,
+      variables
+    );
+
+    // Partial errors (e.g. a deleted repo) come back alongside data for the other aliases. Whole-query
+    // failures (bad scopes, SAML enforcement, ...) come back as a 200 with no usable data.
+    if (response.errors?.length) {
+      const data = response.data;
+      if (!data || batch.every((_, index) => !data[`pr${index}`])) {
+        throw new Error(`GitHub GraphQL Error: ${response.errors.map((error) => error.message).join('; ')}`);
+      }
+      console.warn('GitHub GraphQL returned errors for some PRs:', response.errors);
+    }
+
+    batch.forEach(({ url }, index) => {
+      const pullRequest = response.data?.[`pr${index}`]?.pullRequest;
+      if (pullRequest) {
+        results.set(url, prStatusFromGraphql(pullRequest));
+      }
+    });
+  }
+
+  return results;
+}
+
+// One REST call per PR, a few at a time
+async function fetchPrStatusesRest(agentsWithPrs: Agent[]): Promise<Map<string, PrStatus>> {
+  const results = new Map<string, PrStatus>();
+  const BATCH_SIZE = 5;
+  for (let i = 0; i < agentsWithPrs.length; i += BATCH_SIZE) {
+    const batch = agentsWithPrs.slice(i, i + BATCH_SIZE);
+    const promises = batch.map(async (agent) => {
+      const prUrl = agent.target?.prUrl;
+      if (prUrl) {
+        const status = await fetchPrStatus(prUrl);
+        if (status) {
+          results.set(agent.id, status);
+        }
+      }
+    });
+    await Promise.all(promises);
+  }
+  return results;
+}
+
+// Batch fetch PR statuses for multiple agents
+export async function fetchPrStatusesForAgents(agents: Agent[]): Promise<Map<string, PrStatus>> {
+  const results = new Map<string, PrStatus>();
+
+  // Only fetch for agents with PR URLs
+  const agentsWithPrs = agents.filter(a => a.target?.prUrl);
+
+  // Without a token GraphQL isn't available; fall back to per-PR REST calls
+  if (!getGithubToken()) {
+    return fetchPrStatusesRest(agentsWithPrs);
+  }
+
+  // Several agents can point at the same PR; only query each URL once, and skip fresh cache hits
+  await hydratePrStatusCache();
+  const now = Date.now();
+  const staleUrls = new Set<string>();
+  for (const agent of agentsWithPrs) {
+    const prUrl = agent.target!.prUrl!;
+    const cached = PR_STATUS_CACHE.get(prUrl);
+    if (!cached || now - cached.fetchedAt >= PR_STATUS_CACHE_TTL) {
+      staleUrls.add(prUrl);
+    }
+  }
+
+  if (staleUrls.size > 0) {
+    try {
+      const fetched = await fetchPrStatusesGraphql([...staleUrls]);
+      fetched.forEach((status, prUrl) => {
+        cachePrStatus(prUrl, status);
+      });
+      setPrStatusError(null);
+    } catch (err) {
+      // The whole batch failed (expired or under-scoped token, ...): record why and go per PR over REST
+      console.warn('GitHub GraphQL PR status fetch failed, falling back to REST:', err);
+      setPrStatusError(err instanceof Error ? err.message : String(err));
+      return fetchPrStatusesRest(agentsWithPrs);
+    }
+  }
+
+  for (const agent of agentsWithPrs) {
+    const cached = PR_STATUS_CACHE.get(agent.target!.prUrl!);
+    if (cached) {
+      results.set(agent.id, cached.status);
+    }
+  }
+
+  return results;
+}
+
+// Last known PR statuses regardless of age, for rendering before the first fetch completes
+export async function getCachedPrStatusesForAgents(agents: Agent[]): Promise<Map<string, PrStatus>> {
+  await hydratePrStatusCache();
+  const results = new Map<string, PrStatus>();
+  for (const agent of agents) {
+    const prUrl = agent.target?.prUrl;
+    const cached = prUrl ? PR_STATUS_CACHE.get(prUrl) : undefined;
+    if (cached) {
+      results.set(agent.id, cached.status);
+    }
+  }
+  return results;
+}
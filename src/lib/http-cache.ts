@@ -0,0 +1,103 @@
+import { idbDeletePrefix, idbGet, idbSet } from '@/lib/idb';
+
+// Conditional-request cache for JSON GET endpoints.
+// Stores the last body together with its ETag / Last-Modified per URL (persisted in IndexedDB)
+// and revalidates with If-None-Match / If-Modified-Since. A 304 is answered from the cache, which
+// also keeps it from counting against GitHub's rate limit.
+//
+// Keys are `<scope>:<url>` so a credential change can drop everything for one upstream.
+export type HttpCacheScope = 'cursor' | 'github';
+
+interface HttpCacheEntry {
+  etag: string | null;
+  lastModified: string | null;
+  body: unknown;
+  storedAt: number;
+}
+
+// Mirror of the persisted entries we've touched this session, to avoid an IndexedDB read per request
+const memory = new Map<string, HttpCacheEntry>();
+
+function cacheKey(scope: HttpCacheScope, url: string): string {
+  return `${scope}:${url}`;
+}
+
+async function readEntry(key: string): Promise<HttpCacheEntry | undefined> {
+  const inMemory = memory.get(key);
+  if (inMemory) return inMemory;
+  try {
+    const stored = await idbGet<HttpCacheEntry>('http-cache', key);
+    if (stored) memory.set(key, stored);
+    return stored;
+  } catch {
+    // IndexedDB unavailable (e.g. private mode) - behave as a cold cache
+    return undefined;
+  }
+}
+
+function writeEntry(key: string, entry: HttpCacheEntry): void {
+  memory.set(key, entry);
+  idbSet('http-cache', key, entry).catch(() => {
+    // ignore persistence failures; the in-memory copy still serves this session
+  });
+}
+
+// Last stored body for a URL, without touching the network
+export async function peekHttpCache<T>(scope: HttpCacheScope, url: string): Promise<T | undefined> {
+  const entry = await readEntry(cacheKey(scope, url));
+  return entry?.body as T | undefined;
+}
+
+export async function clearHttpCache(scope: HttpCacheScope): Promise<void> {
+  const prefix = `${scope}:`;
+  for (const key of memory.keys()) {
+    if (key.startsWith(prefix)) memory.delete(key);
+  }
+  try {
+    await idbDeletePrefix('http-cache', prefix);
+  } catch {
+    // nothing persisted
+  }
+}
+
+// Drop-in replacement for `fetch` on JSON GET endpoints. A 304 is turned back into a 200 carrying
+// the cached body (and the 304's headers, so rate-limit bookkeeping still sees them).
+export async function cachedFetch(scope: HttpCacheScope, url: string, init: RequestInit = {}): Promise<Response> {
+  const key = cacheKey(scope, url);
+  const entry = await readEntry(key);
+
+  const headers = new Headers(init.headers);
+  if (entry?.etag) {
+    headers.set('If-None-Match', entry.etag);
+  } else if (entry?.lastModified) {
+    headers.set('If-Modified-Since', entry.lastModified);
+  }
+
+  // Bypass the browser HTTP cache so it can't answer the conditional request itself
+  const response = await fetch(url, { ...init, headers, cache: 'no-store' });
+
+  if (response.status === 304 && entry) {
+    writeEntry(key, { ...entry, storedAt: Date.now() });
+    return new Response(JSON.stringify(entry.body), {
+      status: 200,
+      statusText: 'OK',
+      headers: response.headers,
+    });
+  }
+
+  if (response.ok) {
+    try {
+      const body = await response.clone().json();
+      writeEntry(key, {
+        etag: response.headers.get('ETag'),
+        lastModified: response.headers.get('Last-Modified'),
+        body,
+        storedAt: Date.now(),
+      });
+    } catch {
+      // non-JSON body - nothing to cache
+    }
+  }
+
+  return response;
+}
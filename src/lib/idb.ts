@@ -0,0 +1,80 @@
+// Minimal promise wrapper around IndexedDB for data that should survive reloads but is
+// too large or too frequently written for localStorage.
+const DB_NAME = 'cursor-kanban';
+const DB_VERSION = 2;
+
+// Add new stores here and bump DB_VERSION; missing stores are created on upgrade.
+export type IdbStoreName = 'http-cache' | 'pr-status' | 'agent-history';
+const STORE_NAMES: IdbStoreName[] = ['http-cache', 'pr-status', 'agent-history'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of STORE_NAMES) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call (e.g. after the user closes another tab blocking an upgrade)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  store: IdbStoreName,
+  mode: IDBTransactionMode,
+  fn: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return promisify(fn(db.transaction(store, mode).objectStore(store)));
+}
+
+export async function idbGet<T>(store: IdbStoreName, key: string): Promise<T | undefined> {
+  return withStore(store, 'readonly', (s) => s.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function idbSet<T>(store: IdbStoreName, key: string, value: T): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.put(value, key));
+}
+
+export async function idbDelete(store: IdbStoreName, key: string): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.delete(key));
+}
+
+export async function idbGetAll<T>(store: IdbStoreName): Promise<Array<{ key: string; value: T }>> {
+  const db = await openDb();
+  const objectStore = db.transaction(store, 'readonly').objectStore(store);
+  const [keys, values] = await Promise.all([
+    promisify(objectStore.getAllKeys()),
+    promisify(objectStore.getAll() as IDBRequest<T[]>),
+  ]);
+  return keys.map((key, i) => ({ key: String(key), value: values[i] }));
+}
+
+// Delete every key starting with `prefix` (keys are plain strings, so a bound range covers it)
+export async function idbDeletePrefix(store: IdbStoreName, prefix: string): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+}
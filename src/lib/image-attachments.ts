@@ -0,0 +1,137 @@
+import type { FollowupParams } from '@/lib/cursor-api';
+
+// Images attached to a follow-up, prepared in the browser before upload
+export interface ImageAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  // Base64 without the data: URL prefix, as the Cursor API expects
+  data: string;
+  dimension: { width: number; height: number };
+}
+
+export const MAX_IMAGES_PER_FOLLOWUP = 5;
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+// Anything bigger is almost certainly not a screenshot; refuse before decoding it
+const MAX_SOURCE_BYTES = 20 * 1024 * 1024;
+// Longest edge after downscaling, and the encoded size we aim to stay under
+const MAX_IMAGE_DIMENSION = 2048;
+const MAX_ENCODED_BYTES = 4 * 1024 * 1024;
+const JPEG_QUALITIES = [0.9, 0.8, 0.7, 0.6];
+
+let nextId = 0;
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+// Decoded size of a base64 string
+function base64Bytes(data: string): number {
+  return Math.floor((data.length * 3) / 4);
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`${file.name || 'Image'} could not be decoded`));
+    };
+    image.src = url;
+  });
+}
+
+function stripDataUrl(dataUrl: string): string {
+  return dataUrl.slice(dataUrl.indexOf(',') + 1);
+}
+
+// Re-encode through a canvas at the given size, trying lower JPEG qualities until it fits
+function encodeScaled(image: HTMLImageElement, width: number, height: number, mimeType: string): { data: string; mimeType: string } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available in this browser');
+
+  // PNG keeps transparency and text crisp; try it first for screenshots
+  if (mimeType === 'image/png') {
+    context.drawImage(image, 0, 0, width, height);
+    const data = stripDataUrl(canvas.toDataURL('image/png'));
+    if (base64Bytes(data) <= MAX_ENCODED_BYTES) return { data, mimeType: 'image/png' };
+  }
+
+  // JPEG has no alpha channel, so flatten onto white
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  let data = '';
+  for (const quality of JPEG_QUALITIES) {
+    data = stripDataUrl(canvas.toDataURL('image/jpeg', quality));
+    if (base64Bytes(data) <= MAX_ENCODED_BYTES) break;
+  }
+  return { data, mimeType: 'image/jpeg' };
+}
+
+// Validate, downscale and base64-encode a pasted/dropped/picked file. Throws with a user-facing message.
+export async function prepareImageAttachment(file: File): Promise<ImageAttachment> {
+  const name = file.name || 'pasted image';
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new Error(`${name} is not a supported image (PNG, JPEG, WebP or GIF)`);
+  }
+  if (file.size > MAX_SOURCE_BYTES) {
+    throw new Error(`${name} is ${formatBytes(file.size)}; the limit is ${formatBytes(MAX_SOURCE_BYTES)}`);
+  }
+
+  const image = await loadImage(file);
+  const { naturalWidth, naturalHeight } = image;
+  if (!naturalWidth || !naturalHeight) {
+    throw new Error(`${name} has no dimensions`);
+  }
+
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(naturalWidth, naturalHeight));
+  const width = Math.round(naturalWidth * scale);
+  const height = Math.round(naturalHeight * scale);
+
+  let data: string;
+  let mimeType = file.type;
+  if (scale === 1 && file.size <= MAX_ENCODED_BYTES) {
+    // Small enough already - send the original bytes (keeps GIF animation, avoids recompression)
+    data = stripDataUrl(await readAsDataUrl(file));
+  } else {
+    ({ data, mimeType } = encodeScaled(image, width, height, file.type));
+  }
+
+  if (base64Bytes(data) > MAX_ENCODED_BYTES) {
+    throw new Error(`${name} is still over ${formatBytes(MAX_ENCODED_BYTES)} after downscaling`);
+  }
+
+  return {
+    id: `image_${Date.now()}_${nextId++}`,
+    name,
+    mimeType,
+    data,
+    dimension: { width, height },
+  };
+}
+
+export function imagePreviewUrl(image: ImageAttachment): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}
+
+export function toFollowupImages(images: ImageAttachment[]): NonNullable<FollowupParams['images']> {
+  return images.map(({ data, dimension }) => ({ data, dimension }));
+}
@@ -0,0 +1,64 @@
+// Desktop notifications (Notification API) for agents moving between board columns
+const NOTIFICATION_SETTINGS_KEY = 'cursor_kanban_notification_settings';
+
+export interface NotificationSettings {
+  enabled: boolean;
+  // Column keys that trigger a notification when an agent moves into them
+  columns: string[];
+}
+
+// Finished without a PR, failed, CI broke, review came back
+const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  columns: ['needs_input', 'failed', 'checks_failing', 'changes_requested', 'approved'],
+};
+
+export function isNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+export function getNotificationSettings(): NotificationSettings {
+  try {
+    const raw = localStorage.getItem(NOTIFICATION_SETTINGS_KEY);
+    if (!raw) return DEFAULT_NOTIFICATION_SETTINGS;
+    const parsed = JSON.parse(raw);
+    return {
+      enabled: parsed.enabled === true,
+      columns: Array.isArray(parsed.columns)
+        ? parsed.columns.filter((x: unknown) => typeof x === 'string')
+        : DEFAULT_NOTIFICATION_SETTINGS.columns,
+    };
+  } catch {
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+export function saveNotificationSettings(settings: NotificationSettings): void {
+  localStorage.setItem(NOTIFICATION_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// Must be called from a user gesture in most browsers
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!isNotificationSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+export interface DesktopNotificationOptions {
+  title: string;
+  body?: string;
+  // Notifications with the same tag replace each other instead of stacking
+  tag?: string;
+  onClick?: () => void;
+}
+
+export function showDesktopNotification({ title, body, tag, onClick }: DesktopNotificationOptions): void {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') return;
+
+  const notification = new Notification(title, { body, tag, icon: '/vite.svg' });
+  notification.onclick = () => {
+    window.focus();
+    onClick?.();
+    notification.close();
+  };
+}
@@ -0,0 +1,92 @@
+// Reusable prompt shapes with {{variable}} placeholders, kept in localStorage
+const PROMPT_TEMPLATES_STORAGE_KEY = 'cursor_prompt_templates';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  prompt: string;
+  createdAt: string;
+}
+
+// {{name}}, {{ name }}, {{package-name}}
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export function getPromptTemplates(): PromptTemplate[] {
+  try {
+    const data = localStorage.getItem(PROMPT_TEMPLATES_STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+function savePromptTemplates(templates: PromptTemplate[]): void {
+  localStorage.setItem(PROMPT_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+}
+
+export function savePromptTemplate(template: Pick<PromptTemplate, 'name' | 'prompt'>): PromptTemplate {
+  const newTemplate: PromptTemplate = {
+    ...template,
+    id: `template_${Date.now()}`,
+    createdAt: new Date().toISOString(),
+  };
+  savePromptTemplates([...getPromptTemplates(), newTemplate]);
+  return newTemplate;
+}
+
+export function deletePromptTemplate(id: string): void {
+  savePromptTemplates(getPromptTemplates().filter((t) => t.id !== id));
+}
+
+// Variable names in order of first appearance
+export function extractTemplateVariables(prompt: string): string[] {
+  return [...new Set(Array.from(prompt.matchAll(VARIABLE_PATTERN), (match) => match[1]))];
+}
+
+// Fill in placeholders; ones without a value are left as-is
+export function renderTemplate(prompt: string, values: Record<string, string>): string {
+  return prompt.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+}
+
+export function exportPromptTemplates(): string {
+  return JSON.stringify({ version: 1, templates: getPromptTemplates() }, null, 2);
+}
+
+function isPromptTemplate(value: unknown): value is Pick<PromptTemplate, 'name' | 'prompt'> & Partial<PromptTemplate> {
+  if (!value || typeof value !== 'object') return false;
+  const { name, prompt } = value as Record<string, unknown>;
+  return typeof name === 'string' && typeof prompt === 'string' && prompt.length > 0;
+}
+
+// Accepts an export file (or a bare array of templates). Skips exact duplicates; returns how many were added.
+export function importPromptTemplates(json: string): number {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { templates?: unknown })?.templates;
+  if (!Array.isArray(list)) {
+    throw new Error('No templates found in the file');
+  }
+
+  const existing = getPromptTemplates();
+  const seen = new Set(existing.map((t) => `${t.name}\u0000${t.prompt}`));
+  const added: PromptTemplate[] = [];
+  list.filter(isPromptTemplate).forEach((template, index) => {
+    const key = `${template.name}\u0000${template.prompt}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    added.push({
+      id: `template_${Date.now()}_${index}`,
+      name: template.name,
+      prompt: template.prompt,
+      createdAt: typeof template.createdAt === 'string' ? template.createdAt : new Date().toISOString(),
+    });
+  });
+
+  savePromptTemplates([...existing, ...added]);
+  return added.length;
+}
@@ -0,0 +1,114 @@
+// Token-bucket scheduler for outgoing API requests.
+// Requests wait in a priority queue until a token is available, so user actions
+// (follow-ups, stopping an agent) jump ahead of background polling.
+export type RequestPriority = 'user' | 'background';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  user: 0,
+  background: 1,
+};
+
+interface Waiter {
+  rank: number;
+  seq: number;
+  resolve: () => void;
+}
+
+export interface RateLimiterOptions {
+  // Maximum burst size
+  capacity: number;
+  // One token is added back every `refillIntervalMs`
+  refillIntervalMs: number;
+}
+
+export interface RateLimiter {
+  schedule<T>(task: () => Promise<T>, priority?: RequestPriority): Promise<T>;
+  // Stop handing out tokens for `ms` (e.g. after a 429 with Retry-After)
+  pause(ms: number): void;
+}
+
+export function createRateLimiter({ capacity, refillIntervalMs }: RateLimiterOptions): RateLimiter {
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let seq = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const queue: Waiter[] = [];
+
+  function refill() {
+    const now = Date.now();
+    const added = Math.floor((now - lastRefill) / refillIntervalMs);
+    if (added > 0) {
+      tokens = Math.min(capacity, tokens + added);
+      lastRefill += added * refillIntervalMs;
+    }
+    if (tokens === capacity) {
+      lastRefill = now;
+    }
+  }
+
+  function drain() {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    refill();
+
+    const now = Date.now();
+    while (queue.length > 0 && tokens >= 1 && now >= pausedUntil) {
+      tokens -= 1;
+      queue.shift()!.resolve();
+    }
+
+    if (queue.length > 0) {
+      const wait = now < pausedUntil ? pausedUntil - now : refillIntervalMs - (now - lastRefill);
+      timer = setTimeout(drain, Math.max(wait, 0));
+    }
+  }
+
+  function acquire(priority: RequestPriority): Promise<void> {
+    return new Promise((resolve) => {
+      const waiter = { rank: PRIORITY_RANK[priority], seq: seq++, resolve };
+      // Keep the queue ordered by priority, FIFO within the same priority
+      const index = queue.findIndex((w) => w.rank > waiter.rank);
+      if (index === -1) {
+        queue.push(waiter);
+      } else {
+        queue.splice(index, 0, waiter);
+      }
+      drain();
+    });
+  }
+
+  return {
+    async schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'background'): Promise<T> {
+      await acquire(priority);
+      return task();
+    },
+    pause(ms: number) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+      drain();
+    },
+  };
+}
+
+// Retry-After is either delta-seconds or an HTTP date; returns milliseconds to wait
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter: ~1s, 2s, 4s, ... capped at 30s
+export function backoffDelay(attempt: number, baseMs = 1000, maxMs = 30 * 1000): number {
+  const exp = Math.min(maxMs, baseMs * 2 ** attempt);
+  return exp / 2 + Math.random() * (exp / 2);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
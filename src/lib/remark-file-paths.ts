@@ -0,0 +1,67 @@
+import type { InlineCode, Link, Parent, PhrasingContent, Root, Text } from 'mdast';
+
+// Remark plugin that turns repository file paths ("src/lib/foo.ts", "api/cursor.ts:42") in text
+// and inline code into links, e.g. to the file on the agent's branch on GitHub.
+export interface RemarkFilePathsOptions {
+  // Return null to leave a path unlinked
+  fileUrl: (path: string, line?: number) => string | null;
+}
+
+// At least one directory segment and an extension, optionally followed by :line
+const FILE_PATH_PATTERN = /(?<![\w/.:-])((?:\.{0,2}\/)?(?:[\w@.-]+\/)+[\w@.-]+\.[A-Za-z0-9]+)(?::(\d+))?(?![\w/])/g;
+const INLINE_FILE_PATH = /^((?:\.{0,2}\/)?(?:[\w@.-]+\/)+[\w@.-]+\.[A-Za-z0-9]+)(?::(\d+))?$/;
+
+function linkNode(url: string, children: PhrasingContent[]): Link {
+  return { type: 'link', url, title: null, children };
+}
+
+function splitText(node: Text, fileUrl: RemarkFilePathsOptions['fileUrl']): PhrasingContent[] | null {
+  const parts: PhrasingContent[] = [];
+  let lastIndex = 0;
+
+  for (const match of node.value.matchAll(FILE_PATH_PATTERN)) {
+    const url = fileUrl(match[1], match[2] ? parseInt(match[2], 10) : undefined);
+    if (!url) continue;
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ type: 'text', value: node.value.slice(lastIndex, index) });
+    }
+    parts.push(linkNode(url, [{ type: 'text', value: match[0] }]));
+    lastIndex = index + match[0].length;
+  }
+
+  if (parts.length === 0) return null;
+  if (lastIndex < node.value.length) {
+    parts.push({ type: 'text', value: node.value.slice(lastIndex) });
+  }
+  return parts;
+}
+
+function visit(parent: Parent, fileUrl: RemarkFilePathsOptions['fileUrl']): void {
+  const children: Parent['children'] = [];
+
+  for (const child of parent.children) {
+    if (child.type === 'text') {
+      const parts = splitText(child, fileUrl);
+      children.push(...(parts ?? [child]));
+    } else if (child.type === 'inlineCode') {
+      const match = (child as InlineCode).value.match(INLINE_FILE_PATH);
+      const url = match ? fileUrl(match[1], match[2] ? parseInt(match[2], 10) : undefined) : null;
+      children.push(url ? linkNode(url, [child as InlineCode]) : child);
+    } else {
+      // Don't nest links, and leave fenced code alone
+      if ('children' in child && child.type !== 'link' && child.type !== 'linkReference') {
+        visit(child as Parent, fileUrl);
+      }
+      children.push(child);
+    }
+  }
+
+  parent.children = children;
+}
+
+export default function remarkFilePaths(options: RemarkFilePathsOptions) {
+  return (tree: Root) => {
+    visit(tree, options.fileUrl);
+  };
+}
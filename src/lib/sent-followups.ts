@@ -0,0 +1,28 @@
+// Agents this browser has sent a follow-up to (the list API doesn't say), so column rules can tell
+// "finished, waiting on us" apart from "finished after we followed up".
+const SENT_FOLLOWUPS_STORAGE_KEY = 'cursor_sent_followups';
+
+// Agent id -> when the last follow-up was sent
+export function getSentFollowups(): Record<string, string> {
+  try {
+    const data = localStorage.getItem(SENT_FOLLOWUPS_STORAGE_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveSentFollowups(sent: Record<string, string>): void {
+  localStorage.setItem(SENT_FOLLOWUPS_STORAGE_KEY, JSON.stringify(sent));
+}
+
+export function recordSentFollowup(agentId: string): void {
+  saveSentFollowups({ ...getSentFollowups(), [agentId]: new Date().toISOString() });
+}
+
+export function forgetSentFollowup(agentId: string): void {
+  const sent = getSentFollowups();
+  if (!(agentId in sent)) return;
+  delete sent[agentId];
+  saveSentFollowups(sent);
+}
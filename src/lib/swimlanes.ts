@@ -0,0 +1,101 @@
+import type { AgentGroup } from '@/lib/agent-groups';
+import type { Agent, DraftAgent } from '@/lib/cursor-api';
+
+// Horizontal board split: every column is cut into one lane per repository / model / group
+const SWIMLANE_SETTINGS_STORAGE_KEY = 'cursor_board_swimlanes';
+
+export type SwimlaneMode = 'none' | 'repository' | 'model' | 'group';
+
+export const SWIMLANE_MODE_LABELS: Record<SwimlaneMode, string> = {
+  none: 'No swimlanes',
+  repository: 'By repository',
+  model: 'By model',
+  group: 'By group',
+};
+
+export interface SwimlaneSettings {
+  mode: SwimlaneMode;
+  // Lane keys folded to just their header, per mode
+  collapsed: Partial<Record<SwimlaneMode, string[]>>;
+}
+
+export interface Swimlane {
+  key: string;
+  title: string;
+  // Same column keys (and order) as the board, holding only this lane's cards
+  columns: Record<string, (Agent | DraftAgent)[]>;
+  count: number;
+}
+
+const DEFAULT_SWIMLANE_SETTINGS: SwimlaneSettings = { mode: 'none', collapsed: {} };
+
+export function getSwimlaneSettings(): SwimlaneSettings {
+  try {
+    const data = localStorage.getItem(SWIMLANE_SETTINGS_STORAGE_KEY);
+    if (!data) return DEFAULT_SWIMLANE_SETTINGS;
+    const parsed = JSON.parse(data);
+    return {
+      mode: parsed.mode in SWIMLANE_MODE_LABELS ? parsed.mode : 'none',
+      collapsed: parsed.collapsed && typeof parsed.collapsed === 'object' ? parsed.collapsed : {},
+    };
+  } catch {
+    return DEFAULT_SWIMLANE_SETTINGS;
+  }
+}
+
+export function saveSwimlaneSettings(settings: SwimlaneSettings): void {
+  localStorage.setItem(SWIMLANE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Lane key and title for one card. '' is the catch-all lane (model not recorded / not grouped).
+function laneFor(
+  item: Agent | DraftAgent,
+  isDraft: boolean,
+  mode: SwimlaneMode,
+  groupsByAgent: Map<string, AgentGroup>,
+  agentModels: Record<string, string>
+): { key: string; title: string } {
+  if (mode === 'repository') {
+    const repository = isDraft ? (item as DraftAgent).repository : (item as Agent).source.repository;
+    return { key: repository, title: repository.split('/').slice(-2).join('/') };
+  }
+  if (mode === 'model') {
+    // Drafts carry their model; agents only have one if they were launched from this browser
+    const model = isDraft ? (item.model ?? '') : agentModels[item.id];
+    if (model === undefined) return { key: '', title: 'Unknown model' };
+    return model ? { key: `model:${model}`, title: model } : { key: 'auto', title: 'Auto' };
+  }
+  const group = groupsByAgent.get(item.id);
+  return group ? { key: group.id, title: group.name } : { key: '', title: 'Ungrouped' };
+}
+
+// Cards in the backlog column are drafts
+export function buildSwimlanes(
+  columns: Record<string, (Agent | DraftAgent)[]>,
+  mode: SwimlaneMode,
+  groupsByAgent: Map<string, AgentGroup>,
+  // Model recorded at launch, per agent id
+  agentModels: Record<string, string>
+): Swimlane[] {
+  const columnKeys = Object.keys(columns);
+  const lanes = new Map<string, Swimlane>();
+
+  for (const columnKey of columnKeys) {
+    for (const item of columns[columnKey]) {
+      const { key, title } = laneFor(item, columnKey === 'backlog', mode, groupsByAgent, agentModels);
+      let lane = lanes.get(key);
+      if (!lane) {
+        lane = { key, title, columns: Object.fromEntries(columnKeys.map((k) => [k, []])), count: 0 };
+        lanes.set(key, lane);
+      }
+      lane.columns[columnKey].push(item);
+      lane.count++;
+    }
+  }
+
+  // Alphabetical, with the catch-all lane last
+  return [...lanes.values()].sort((a, b) => {
+    if (!a.key !== !b.key) return a.key ? -1 : 1;
+    return a.title.localeCompare(b.title);
+  });
+}
@@ -0,0 +1,61 @@
+// App-wide toast queue. Anything can call `toast(...)`; the <Toaster /> mounted in App renders it.
+export type ToastVariant = 'default' | 'success' | 'error';
+
+export interface ToastActionOptions {
+  label: string;
+  onClick: () => void;
+}
+
+export interface ToastOptions {
+  title: string;
+  description?: string;
+  variant?: ToastVariant;
+  action?: ToastActionOptions;
+  // Milliseconds before auto-dismiss
+  duration?: number;
+}
+
+export interface ToastItem extends ToastOptions {
+  id: string;
+  open: boolean;
+}
+
+const MAX_TOASTS = 5;
+// Leave time for the close animation before removing a toast from the list
+const TOAST_REMOVE_DELAY = 300;
+
+let toasts: ToastItem[] = [];
+let nextId = 0;
+const listeners = new Set<() => void>();
+
+function setToasts(next: ToastItem[]): void {
+  toasts = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function getToasts(): ToastItem[] {
+  return toasts;
+}
+
+export function subscribeToasts(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function toast(options: ToastOptions): string {
+  const id = `toast_${nextId++}`;
+  setToasts([{ ...options, id, open: true }, ...toasts].slice(0, MAX_TOASTS));
+  return id;
+}
+
+toast.success = (title: string, description?: string) => toast({ title, description, variant: 'success' });
+toast.error = (title: string, description?: string) => toast({ title, description, variant: 'error' });
+
+export function dismissToast(id: string): void {
+  setToasts(toasts.map((t) => (t.id === id ? { ...t, open: false } : t)));
+  setTimeout(() => {
+    setToasts(toasts.filter((t) => t.id !== id));
+  }, TOAST_REMOVE_DELAY);
+}